@@ -0,0 +1,105 @@
+// Chat history in SQLite, so it survives server restarts (clients reconnecting to a restarted
+// server find their room's chat again). Uses the node:sqlite module built
+// into Node 22.5+, loaded only when CHAT_DB is set, so older Node versions still run the server
+// with in-memory history.
+import type { DatabaseSync } from 'node:sqlite';
+import type { ChatHistoryPage, ChatHistoryStore } from '../../shared/chat-history.ts';
+import type { ChatBroadcastMessage } from '../../shared/protocol.ts';
+
+export interface ChatHistoryOptions {
+  // SQLite file for chat history; unset keeps it in memory
+  dbPath?: string;
+  maxPerRoom: number;
+}
+
+// CHAT_DB (file path), CHAT_HISTORY_LIMIT (messages kept per room)
+export function chatHistoryOptionsFromEnv(env: NodeJS.ProcessEnv): ChatHistoryOptions {
+  return {
+    dbPath: env.CHAT_DB || undefined,
+    maxPerRoom: Number(env.CHAT_HISTORY_LIMIT) || 200,
+  };
+}
+
+// A room's message by author and id; the room index keeps the scan to one room's history
+const MATCH_MESSAGE = "room_id = ? AND json_extract(message, '$.fromId') = ? AND json_extract(message, '$.id') = ?";
+
+// Keeps the last `maxPerRoom` messages of the `maxRooms` rooms chatted in most recently, like
+// MemoryChatHistory; rooms nobody came back to after a restart are never cleared otherwise
+export class SqliteChatHistory implements ChatHistoryStore {
+  constructor(
+    private readonly db: DatabaseSync,
+    private readonly maxPerRoom = 200,
+    private readonly maxRooms = 1000
+  ) {
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS chat_messages (
+        seq INTEGER PRIMARY KEY AUTOINCREMENT,
+        room_id TEXT NOT NULL,
+        message TEXT NOT NULL
+      );
+      CREATE INDEX IF NOT EXISTS chat_messages_room ON chat_messages (room_id, seq);
+    `);
+  }
+
+  append(roomId: string, message: ChatBroadcastMessage) {
+    const newRoom = !this.db.prepare('SELECT 1 FROM chat_messages WHERE room_id = ? LIMIT 1').get(roomId);
+    this.db.prepare('INSERT INTO chat_messages (room_id, message) VALUES (?, ?)').run(roomId, JSON.stringify(message));
+    if (newRoom) {
+      // Only a new room can take the count over the limit; the rooms whose newest message is
+      // oldest go
+      this.db
+        .prepare(
+          `DELETE FROM chat_messages WHERE room_id IN (
+            SELECT room_id FROM chat_messages GROUP BY room_id ORDER BY MAX(seq) DESC LIMIT -1 OFFSET ?
+          )`
+        )
+        .run(this.maxRooms);
+    }
+    // Everything older than the newest maxPerRoom goes
+    this.db
+      .prepare(
+        `DELETE FROM chat_messages WHERE room_id = ? AND seq <= (
+          SELECT seq FROM chat_messages WHERE room_id = ? ORDER BY seq DESC LIMIT 1 OFFSET ?
+        )`
+      )
+      .run(roomId, roomId, this.maxPerRoom);
+  }
+
+  page(roomId: string, limit: number, before?: number): ChatHistoryPage {
+    // One extra row tells whether anything older is left
+    const rows = this.db
+      .prepare('SELECT seq, message FROM chat_messages WHERE room_id = ? AND seq < ? ORDER BY seq DESC LIMIT ?')
+      .all(roomId, before ?? Number.MAX_SAFE_INTEGER, limit + 1) as { seq: number; message: string }[];
+    const page = rows.slice(0, limit).reverse();
+    return {
+      messages: page.map((row) => JSON.parse(row.message) as ChatBroadcastMessage),
+      cursor: rows.length > limit ? page[0].seq : null,
+    };
+  }
+
+  find(roomId: string, fromId: string, id: string): ChatBroadcastMessage | undefined {
+    const row = this.db
+      .prepare(`SELECT message FROM chat_messages WHERE ${MATCH_MESSAGE}`)
+      .get(roomId, fromId, id) as { message: string } | undefined;
+    return row && (JSON.parse(row.message) as ChatBroadcastMessage);
+  }
+
+  replace(roomId: string, message: ChatBroadcastMessage) {
+    this.db
+      .prepare(`UPDATE chat_messages SET message = ? WHERE ${MATCH_MESSAGE}`)
+      .run(JSON.stringify(message), roomId, message.fromId, message.id);
+  }
+
+  clear(roomId: string) {
+    this.db.prepare('DELETE FROM chat_messages WHERE room_id = ?').run(roomId);
+  }
+
+  close() {
+    this.db.close();
+  }
+}
+
+export async function openSqliteChatHistory(path: string, maxPerRoom?: number): Promise<SqliteChatHistory> {
+  const { DatabaseSync } = await import('node:sqlite');
+  return new SqliteChatHistory(new DatabaseSync(path), maxPerRoom);
+}
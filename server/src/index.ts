@@ -0,0 +1,23 @@
+import { MemoryChatHistory } from '../../shared/chat-history.ts';
+import { chatHistoryOptionsFromEnv, openSqliteChatHistory } from './chat-history.ts';
+import { startSignalingServer } from './server.ts';
+import { sfuOptionsFromEnv, WeriftSfu } from './sfu.ts';
+import { createIceConfigProvider, iceConfigOptionsFromEnv } from './turn.ts';
+
+const port = Number(process.env.PORT) || 8080;
+
+try {
+  const iceOptions = iceConfigOptionsFromEnv(process.env);
+  const iceConfig = createIceConfigProvider(iceOptions);
+  const sfu = process.env.SFU === '1'
+    ? new WeriftSfu(sfuOptionsFromEnv(process.env, iceOptions.stunUrls))
+    : undefined;
+  const { dbPath, maxPerRoom } = chatHistoryOptionsFromEnv(process.env);
+  const chatHistory = dbPath
+    ? await openSqliteChatHistory(dbPath, maxPerRoom)
+    : new MemoryChatHistory(maxPerRoom);
+  await startSignalingServer({ port, iceConfig, sfu, chatHistory });
+} catch (err) {
+  console.error('[signaling] failed to start:', err);
+  process.exit(1);
+}
@@ -0,0 +1,123 @@
+// WebSocket signaling server: exposes the shared SignalingHub (shared/hub.ts) over ws
+import { createServer, type IncomingMessage, type Server, type ServerResponse } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { WebSocket, WebSocketServer } from 'ws';
+import { SignalingHub, type HubConnection, type Logger, type SfuBackend } from '../../shared/hub.ts';
+import type { ChatHistoryStore } from '../../shared/chat-history.ts';
+import type { IceConfig, RoomMode, ServerMessage } from '../../shared/protocol.ts';
+import type { RoomRegistry } from '../../shared/rooms.ts';
+
+export { VERSION_MISMATCH_CLOSE_CODE, type Logger } from '../../shared/hub.ts';
+
+export interface SignalingServerOptions {
+  port?: number;
+  host?: string;
+  heartbeatIntervalMs?: number;
+  logger?: Logger;
+  iceConfig?: (userId: string) => IceConfig;
+  // Enables SFU rooms; closed together with the server
+  sfu?: SfuBackend;
+  defaultRoomMode?: RoomMode;
+  // Where chat history lives (in memory by default); closed together with the server
+  chatHistory?: ChatHistoryStore;
+  maxIdentities?: number;
+}
+
+export interface SignalingServer {
+  port: number;
+  rooms: RoomRegistry<HubConnection>;
+  close(): Promise<void>;
+}
+
+interface Client {
+  socket: WebSocket;
+  connection: HubConnection;
+  isAlive: boolean;
+}
+
+export async function startSignalingServer(
+  options: SignalingServerOptions = {}
+): Promise<SignalingServer> {
+  const logger = options.logger ?? console;
+  const hub = new SignalingHub({
+    logger,
+    iceConfig: options.iceConfig,
+    sfu: options.sfu,
+    defaultRoomMode: options.defaultRoomMode,
+    chatHistory: options.chatHistory,
+    maxIdentities: options.maxIdentities,
+  });
+  const clients = new Set<Client>();
+
+  const httpServer: Server = createServer((req: IncomingMessage, res: ServerResponse) => {
+    if (req.url === '/health') {
+      res.writeHead(200, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ status: 'ok', rooms: hub.rooms.size, timestamp: new Date().toISOString() }));
+      return;
+    }
+    res.writeHead(404, { 'Content-Type': 'text/plain' });
+    res.end('Not found');
+  });
+
+  const wss = new WebSocketServer({ server: httpServer });
+
+  wss.on('connection', (socket) => {
+    const connection = hub.connect({
+      send(message: ServerMessage) {
+        if (socket.readyState !== WebSocket.OPEN) return;
+        socket.send(JSON.stringify(message));
+      },
+      close(code, reason) {
+        socket.close(code, reason);
+      },
+    });
+    const client: Client = { socket, connection, isAlive: true };
+    clients.add(client);
+
+    socket.on('pong', () => {
+      client.isAlive = true;
+    });
+    socket.on('message', (raw) => connection.receive(raw.toString()));
+    socket.on('close', () => {
+      clients.delete(client);
+      connection.disconnect();
+    });
+    socket.on('error', (err) => logger.warn('[signaling] socket error:', err));
+  });
+
+  // Terminate sockets that stopped answering protocol-level pings
+  const heartbeat = setInterval(() => {
+    clients.forEach((client) => {
+      if (!client.isAlive) {
+        client.socket.terminate();
+        return;
+      }
+      client.isAlive = false;
+      client.socket.ping();
+    });
+  }, options.heartbeatIntervalMs ?? 30000);
+
+  await new Promise<void>((resolve, reject) => {
+    httpServer.once('error', reject);
+    httpServer.listen(options.port ?? 8080, options.host, () => {
+      httpServer.off('error', reject);
+      resolve();
+    });
+  });
+
+  const { port } = httpServer.address() as AddressInfo;
+  logger.info(`[signaling] listening on ws://localhost:${port}`);
+
+  return {
+    port,
+    rooms: hub.rooms,
+    close: () =>
+      new Promise<void>((resolve) => {
+        clearInterval(heartbeat);
+        options.sfu?.close?.();
+        options.chatHistory?.close?.();
+        wss.clients.forEach((socket) => socket.terminate());
+        wss.close(() => httpServer.close(() => resolve()));
+      }),
+  };
+}
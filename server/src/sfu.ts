@@ -0,0 +1,338 @@
+// Selective forwarding unit built on werift: the host publishes its stream to the server
+// once and the server forwards the RTP to every viewer over its own peer connection.
+// Signaling reuses the ordinary offer/answer/ice-candidate messages with SFU_PEER_ID as the
+// other side: the host offers to the SFU, the SFU offers to each viewer. The host publishes
+// simulcast; each viewer gets the layer it last asked for with layer-request.
+import {
+  RTCPeerConnection,
+  RTCRtpCodecParameters,
+  useSdesMid,
+  useSdesRTPStreamId,
+  type MediaStreamTrack,
+  type RTCRtpTransceiver,
+} from 'werift';
+import type { Logger, SfuBackend } from '../../shared/hub.ts';
+import {
+  SFU_PEER_ID,
+  SIMULCAST_RIDS,
+  type IceServer,
+  type RelayMessage,
+  type Role,
+  type ServerMessage,
+  type SimulcastLayer,
+} from '../../shared/protocol.ts';
+
+export interface SfuOptions {
+  // STUN/TURN for the server side of each connection (needed behind NAT)
+  iceServers?: IceServer[];
+  // UDP ports to gather candidates on, e.g. to match a firewall rule
+  icePortRange?: [number, number];
+  logger?: Logger;
+}
+
+// SFU_PORT_RANGE=<min>-<max> pins the UDP ports; STUN servers let the SFU learn its public address
+export function sfuOptionsFromEnv(env: NodeJS.ProcessEnv, stunUrls: string[]): SfuOptions {
+  const [min, max] = (env.SFU_PORT_RANGE ?? '').split('-').map(Number);
+  return {
+    iceServers: stunUrls.length > 0 ? [{ urls: stunUrls }] : [],
+    icePortRange: min > 0 && max > min ? [min, max] : undefined,
+  };
+}
+
+type Kind = 'audio' | 'video';
+
+// Forwarding needs both sides on the same codec, so the SFU offers exactly one of each
+const CODECS = {
+  video: [
+    new RTCRtpCodecParameters({
+      mimeType: 'video/VP8',
+      clockRate: 90000,
+      rtcpFeedback: [{ type: 'nack' }, { type: 'nack', parameter: 'pli' }, { type: 'goog-remb' }],
+    }),
+  ],
+  audio: [new RTCRtpCodecParameters({ mimeType: 'audio/opus', clockRate: 48000, channels: 2 })],
+};
+
+// Layer preference from best to worst; a missing layer falls back to the next worse, then better one
+const LAYER_ORDER: SimulcastLayer[] = ['high', 'medium', 'low'];
+
+// The rid to forward for a wanted layer, given the rids the host actually sends
+export function chooseRid(available: string[], wanted: SimulcastLayer): string | undefined {
+  const index = LAYER_ORDER.indexOf(wanted);
+  const candidates = [...LAYER_ORDER.slice(index), ...LAYER_ORDER.slice(0, index).reverse()];
+  return candidates.map((layer) => SIMULCAST_RIDS[layer]).find((rid) => available.includes(rid));
+}
+
+interface Publisher {
+  hostId: string;
+  pc: RTCPeerConnection;
+  session: number;
+  tracks: Map<Kind, { track: MediaStreamTrack; transceiver: RTCRtpTransceiver }>;
+  // Simulcast video by rid; empty when the host sends a single encoding
+  layers: Map<string, MediaStreamTrack>;
+}
+
+interface Subscriber {
+  pc: RTCPeerConnection;
+  session: number;
+  transceivers: Map<Kind, RTCRtpTransceiver>;
+}
+
+interface SfuRoom {
+  id: string;
+  publisher: Publisher | null;
+  // null until the host's tracks arrive and the viewer gets an offer
+  viewers: Map<string, Subscriber | null>;
+  // Layer each viewer asked for; viewers that never asked get the best one
+  requestedLayers: Map<string, SimulcastLayer>;
+  syncScheduled: boolean;
+}
+
+export class WeriftSfu implements SfuBackend {
+  private rooms = new Map<string, SfuRoom>();
+  private deliver: (roomId: string, userId: string, message: ServerMessage) => void = () => {};
+  private logger: Logger;
+  private sessionCounter = 0;
+
+  constructor(private options: SfuOptions = {}) {
+    this.logger = options.logger ?? console;
+  }
+
+  attach(deliver: (roomId: string, userId: string, message: ServerMessage) => void) {
+    this.deliver = deliver;
+  }
+
+  get roomCount() {
+    return this.rooms.size;
+  }
+
+  addViewer(roomId: string, userId: string) {
+    const room = this.getRoom(roomId);
+    if (!room.viewers.has(userId)) {
+      room.viewers.set(userId, null);
+    }
+    this.scheduleSync(room);
+  }
+
+  removePeer(roomId: string, userId: string, role: Role) {
+    const room = this.rooms.get(roomId);
+    if (!room) return;
+
+    if (role === 'host') {
+      if (room.publisher?.hostId === userId) {
+        void room.publisher.pc.close();
+        room.publisher = null;
+        // Viewers get fresh connections (new sessions) once a host publishes again
+        room.viewers.forEach((viewer, viewerId) => {
+          void viewer?.pc.close();
+          room.viewers.set(viewerId, null);
+        });
+      }
+    } else {
+      void room.viewers.get(userId)?.pc.close();
+      room.viewers.delete(userId);
+      room.requestedLayers.delete(userId);
+    }
+
+    if (!room.publisher && room.viewers.size === 0) {
+      this.rooms.delete(roomId);
+    }
+  }
+
+  handleSignal(roomId: string, userId: string, role: Role, message: RelayMessage) {
+    const task = role === 'host'
+      ? this.handlePublisherSignal(this.getRoom(roomId), userId, message)
+      : this.handleSubscriberSignal(this.getRoom(roomId), userId, message);
+    task.catch((err) => this.logger.error(`[sfu] ${message.type} from ${userId} failed:`, err));
+  }
+
+  close() {
+    this.rooms.forEach((room) => {
+      void room.publisher?.pc.close();
+      room.viewers.forEach((viewer) => void viewer?.pc.close());
+    });
+    this.rooms.clear();
+  }
+
+  private getRoom(roomId: string): SfuRoom {
+    let room = this.rooms.get(roomId);
+    if (!room) {
+      room = { id: roomId, publisher: null, viewers: new Map(), requestedLayers: new Map(), syncScheduled: false };
+      this.rooms.set(roomId, room);
+    }
+    return room;
+  }
+
+  private createPeerConnection() {
+    return new RTCPeerConnection({
+      codecs: CODECS,
+      // rid tells simulcast layers apart
+      headerExtensions: { video: [useSdesMid(), useSdesRTPStreamId()], audio: [useSdesMid()] },
+      iceServers: this.options.iceServers ?? [],
+      icePortRange: this.options.icePortRange,
+    });
+  }
+
+  private send(room: SfuRoom, userId: string, message: RelayMessage) {
+    this.deliver(room.id, userId, { ...message, roomId: room.id, fromId: SFU_PEER_ID } as ServerMessage);
+  }
+
+  // ---- Host side: one incoming connection per room ----
+
+  private async handlePublisherSignal(room: SfuRoom, hostId: string, message: RelayMessage) {
+    if (message.type === 'ice-candidate') {
+      if (message.data && room.publisher?.hostId === hostId) {
+        await room.publisher.pc.addIceCandidate(message.data);
+      }
+      return;
+    }
+    if (message.type !== 'offer' || !message.data.sdp) return;
+
+    // A new session means the host rebuilt its connection
+    const session = message.session ?? 0;
+    let publisher = room.publisher;
+    if (!publisher || publisher.hostId !== hostId || publisher.session !== session) {
+      if (publisher) void publisher.pc.close();
+      publisher = this.createPublisher(room, hostId, session);
+      room.publisher = publisher;
+      this.logger.info(`[sfu] host ${hostId} publishing to room ${room.id}`);
+    }
+
+    await publisher.pc.setRemoteDescription({ type: 'offer', sdp: message.data.sdp });
+    const answer = await publisher.pc.createAnswer();
+    await publisher.pc.setLocalDescription(answer);
+    this.send(room, hostId, {
+      type: 'answer',
+      roomId: room.id,
+      targetId: hostId,
+      data: { type: 'answer', sdp: publisher.pc.localDescription?.sdp ?? answer.sdp },
+    });
+  }
+
+  private createPublisher(room: SfuRoom, hostId: string, session: number): Publisher {
+    const pc = this.createPeerConnection();
+    const publisher: Publisher = { hostId, pc, session, tracks: new Map(), layers: new Map() };
+
+    pc.onTrack.subscribe((track) => {
+      const transceiver = pc.getTransceivers().find((t) => t.receiver.tracks.includes(track));
+      if (!transceiver || (track.kind !== 'audio' && track.kind !== 'video')) return;
+      publisher.tracks.set(track.kind, { track, transceiver });
+      // With simulcast the receiver holds one track per rid; only the first is announced
+      if (track.kind === 'video') {
+        transceiver.receiver.tracks.forEach((layer) => {
+          if (layer.rid) publisher.layers.set(layer.rid, layer);
+        });
+      }
+      this.scheduleSync(room);
+    });
+    // The host opens its chat data channel here too; chat goes through signaling in SFU rooms
+    pc.onDataChannel.subscribe(() => {});
+    pc.connectionStateChange.subscribe((state) => {
+      this.logger.info(`[sfu] publisher ${hostId} in room ${room.id}: ${state}`);
+    });
+    return publisher;
+  }
+
+  private requestKeyframe(room: SfuRoom) {
+    const video = room.publisher?.tracks.get('video');
+    if (!video) return;
+    // A viewer switching layers needs a keyframe from that layer, so ask every one
+    const tracks = room.publisher!.layers.size > 0 ? [...room.publisher!.layers.values()] : [video.track];
+    tracks.forEach((track) => {
+      if (track.ssrc) video.transceiver.receiver.sendRtcpPLI(track.ssrc).catch(() => {});
+    });
+  }
+
+  // What this viewer should get for one kind: its requested simulcast layer, or the only track
+  private sourceTrack(room: SfuRoom, viewerId: string, kind: Kind): MediaStreamTrack | undefined {
+    const publisher = room.publisher;
+    if (kind === 'video' && publisher && publisher.layers.size > 0) {
+      const rid = chooseRid([...publisher.layers.keys()], room.requestedLayers.get(viewerId) ?? 'high');
+      if (rid) return publisher.layers.get(rid);
+    }
+    return publisher?.tracks.get(kind)?.track;
+  }
+
+  // ---- Viewer side: one outgoing connection per viewer ----
+
+  // Batch the host's tracks (they arrive one by one) into a single offer per viewer
+  private scheduleSync(room: SfuRoom) {
+    if (room.syncScheduled) return;
+    room.syncScheduled = true;
+    setImmediate(() => {
+      room.syncScheduled = false;
+      room.viewers.forEach((_, viewerId) => {
+        this.syncSubscriber(room, viewerId).catch((err) =>
+          this.logger.error(`[sfu] failed to update viewer ${viewerId}:`, err)
+        );
+      });
+    });
+  }
+
+  private async syncSubscriber(room: SfuRoom, viewerId: string) {
+    const tracks = room.publisher?.tracks;
+    if (!tracks || tracks.size === 0) return;
+
+    let subscriber = room.viewers.get(viewerId);
+    let needsOffer = false;
+    if (!subscriber) {
+      subscriber = this.createSubscriber(room, viewerId);
+      room.viewers.set(viewerId, subscriber);
+      needsOffer = true;
+    }
+
+    for (const kind of tracks.keys()) {
+      const track = this.sourceTrack(room, viewerId, kind)!;
+      const transceiver = subscriber.transceivers.get(kind);
+      if (!transceiver) {
+        const added = subscriber.pc.addTransceiver(track, { direction: 'sendonly' });
+        added.sender.onPictureLossIndication.subscribe(() => this.requestKeyframe(room));
+        subscriber.transceivers.set(kind, added);
+        needsOffer = true;
+      } else if (transceiver.sender.track !== track) {
+        // Host rebuilt its connection or the viewer changed layer: swap the source in place
+        await transceiver.sender.replaceTrack(track);
+      }
+    }
+
+    if (needsOffer) {
+      const offer = await subscriber.pc.createOffer();
+      await subscriber.pc.setLocalDescription(offer);
+      this.send(room, viewerId, {
+        type: 'offer',
+        roomId: room.id,
+        targetId: viewerId,
+        data: { type: 'offer', sdp: subscriber.pc.localDescription?.sdp ?? offer.sdp },
+        session: subscriber.session,
+      });
+    }
+    this.requestKeyframe(room);
+  }
+
+  private createSubscriber(room: SfuRoom, viewerId: string): Subscriber {
+    const pc = this.createPeerConnection();
+    pc.connectionStateChange.subscribe((state) => {
+      this.logger.info(`[sfu] subscriber ${viewerId} in room ${room.id}: ${state}`);
+      if (state === 'connected') this.requestKeyframe(room);
+    });
+    return { pc, session: ++this.sessionCounter, transceivers: new Map() };
+  }
+
+  private async handleSubscriberSignal(room: SfuRoom, viewerId: string, message: RelayMessage) {
+    if (message.type === 'layer-request') {
+      if (room.requestedLayers.get(viewerId) === message.layer) return;
+      room.requestedLayers.set(viewerId, message.layer);
+      if (room.viewers.get(viewerId)) await this.syncSubscriber(room, viewerId);
+      return;
+    }
+
+    const subscriber = room.viewers.get(viewerId);
+    if (!subscriber) return;
+
+    if (message.type === 'answer' && message.data.sdp) {
+      await subscriber.pc.setRemoteDescription({ type: 'answer', sdp: message.data.sdp });
+    } else if (message.type === 'ice-candidate' && message.data) {
+      await subscriber.pc.addIceCandidate(message.data);
+    }
+  }
+}
@@ -0,0 +1,97 @@
+// ICE server configuration and coturn-compatible TURN REST API credentials.
+// coturn (use-auth-secret / static-auth-secret) accepts username "<expiry>:<user>" with
+// credential base64(HMAC-SHA1(secret, username)) until the expiry timestamp passes.
+import { createHmac, timingSafeEqual } from 'node:crypto';
+import type { IceConfig, IceServer } from '../../shared/protocol.ts';
+
+export interface TurnCredentials {
+  username: string;
+  credential: string;
+  // Unix time in seconds
+  expiresAt: number;
+}
+
+export function createTurnCredentials(
+  secret: string,
+  userId: string,
+  ttlSeconds = 3600,
+  now = Date.now()
+): TurnCredentials {
+  const expiresAt = Math.floor(now / 1000) + ttlSeconds;
+  const username = `${expiresAt}:${userId}`;
+  const credential = createHmac('sha1', secret).update(username).digest('base64');
+  return { username, credential, expiresAt };
+}
+
+// Mirrors coturn's check: the HMAC must match and the embedded expiry must be in the future
+export function verifyTurnCredentials(
+  secret: string,
+  username: string,
+  credential: string,
+  now = Date.now()
+): boolean {
+  const expiresAt = Number(username.split(':')[0]);
+  if (!Number.isFinite(expiresAt) || expiresAt * 1000 <= now) return false;
+
+  const expected = Buffer.from(createHmac('sha1', secret).update(username).digest('base64'));
+  const actual = Buffer.from(credential);
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
+
+export interface IceConfigOptions {
+  stunUrls: string[];
+  turnUrls: string[];
+  turnSecret?: string;
+  turnTtlSeconds: number;
+  forceRelay: boolean;
+}
+
+const DEFAULT_STUN_URLS = [
+  'stun:stun.l.google.com:19302',
+  'stun:stun1.l.google.com:19302',
+  'stun:stun2.l.google.com:19302',
+];
+
+const splitList = (value: string | undefined) =>
+  (value ?? '').split(',').map((s) => s.trim()).filter(Boolean);
+
+// STUN_URLS, TURN_URLS (comma separated), TURN_SECRET, TURN_TTL (seconds), ICE_TRANSPORT_POLICY=relay
+export function iceConfigOptionsFromEnv(env: NodeJS.ProcessEnv): IceConfigOptions {
+  const stunUrls = splitList(env.STUN_URLS);
+  return {
+    stunUrls: stunUrls.length > 0 ? stunUrls : DEFAULT_STUN_URLS,
+    turnUrls: splitList(env.TURN_URLS),
+    turnSecret: env.TURN_SECRET || undefined,
+    turnTtlSeconds: Number(env.TURN_TTL) || 3600,
+    forceRelay: env.ICE_TRANSPORT_POLICY === 'relay',
+  };
+}
+
+export function createIceConfigProvider(options: IceConfigOptions) {
+  if (options.turnUrls.length > 0 && !options.turnSecret) {
+    throw new Error('TURN_URLS is set but TURN_SECRET is missing');
+  }
+  if (options.forceRelay && options.turnUrls.length === 0) {
+    throw new Error('ICE_TRANSPORT_POLICY=relay needs at least one TURN URL');
+  }
+
+  return (userId: string, now = Date.now()): IceConfig => {
+    const iceServers: IceServer[] = [];
+    if (options.stunUrls.length > 0) {
+      iceServers.push({ urls: options.stunUrls });
+    }
+
+    let expiresAt: number | undefined;
+    if (options.turnUrls.length > 0 && options.turnSecret) {
+      const turn = createTurnCredentials(options.turnSecret, userId, options.turnTtlSeconds, now);
+      iceServers.push({ urls: options.turnUrls, username: turn.username, credential: turn.credential });
+      expiresAt = turn.expiresAt;
+    }
+
+    return {
+      iceServers,
+      iceTransportPolicy: options.forceRelay ? 'relay' : 'all',
+      expiresAt,
+    };
+  };
+}
@@ -0,0 +1,77 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { useTestServer } from './helpers.ts';
+
+describe('room admission', () => {
+  const { connect, hostRoom } = useTestServer();
+
+  // Joins without waiting for room-joined, which may never come
+  const join = async (roomId: string, userId: string, passcode?: string) => {
+    const viewer = await connect();
+    viewer.send({ type: 'join-room', roomId, userId, passcode });
+    return viewer;
+  };
+
+  it('checks the passcode on join', async () => {
+    const host = await hostRoom('locked', 'host_p', { passcode: 'hunter2' });
+
+    const without = await join('locked', 'viewer_p1');
+    assert.equal((await without.next('error')).code, 'passcode-required');
+    const wrong = await join('locked', 'viewer_p2', 'hunter3');
+    assert.equal((await wrong.next('error')).code, 'passcode-incorrect');
+    await host.expectNone('viewer-joined');
+
+    const right = await join('locked', 'viewer_p3', 'hunter2');
+    await right.next('room-joined');
+    assert.equal((await host.next('viewer-joined')).userId, 'viewer_p3');
+  });
+
+  it('holds knocking viewers until the host decides', async () => {
+    const host = await hostRoom('lobby', 'host_k', { admission: 'knock' });
+
+    const admitted = await join('lobby', 'viewer_k1');
+    await admitted.next('admission-pending');
+    assert.equal((await host.next('knock')).userId, 'viewer_k1');
+    await host.expectNone('viewer-joined');
+
+    host.send({ type: 'admission', roomId: 'lobby', userId: 'viewer_k1', admit: true });
+    await admitted.next('room-joined');
+    assert.equal((await host.next('viewer-joined')).userId, 'viewer_k1');
+
+    const denied = await join('lobby', 'viewer_k2');
+    await host.next('knock');
+    host.send({ type: 'admission', roomId: 'lobby', userId: 'viewer_k2', admit: false });
+    assert.equal((await denied.next('error')).code, 'admission-denied');
+    await denied.expectNone('room-joined');
+  });
+
+  it('tells the host when a knocking viewer gives up', async () => {
+    const host = await hostRoom('lobby-2', 'host_w', { admission: 'knock' });
+    const viewer = await join('lobby-2', 'viewer_w');
+    await host.next('knock');
+
+    await viewer.close();
+    assert.equal((await host.next('knock-withdrawn')).userId, 'viewer_w');
+  });
+
+  it('lets waiting viewers in when the host opens the room', async () => {
+    const host = await hostRoom('lobby-3', 'host_o', { admission: 'knock' });
+    const viewer = await join('lobby-3', 'viewer_o');
+    await host.next('knock');
+
+    host.send({ type: 'room-access', roomId: 'lobby-3', admission: 'open' });
+    await viewer.next('room-joined');
+    assert.equal((await host.next('viewer-joined')).userId, 'viewer_o');
+  });
+
+  it('only lets the host admit viewers', async () => {
+    const host = await hostRoom('lobby-4', 'host_f', { admission: 'knock' });
+    const knocker = await join('lobby-4', 'viewer_f1');
+    await host.next('knock');
+    host.send({ type: 'admission', roomId: 'lobby-4', userId: 'viewer_f1', admit: true });
+    await knocker.next('room-joined');
+
+    knocker.send({ type: 'admission', roomId: 'lobby-4', userId: 'viewer_f1', admit: true });
+    assert.equal((await knocker.next('error')).code, 'forbidden');
+  });
+});
@@ -0,0 +1,110 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { applyChatEvent, mayChangeChatMessage } from '../../shared/chat-events.ts';
+import { CHAT_EDIT_WINDOW_MS, type ChatBroadcastMessage } from '../../shared/protocol.ts';
+import { useTestServer } from './helpers.ts';
+
+describe('chat events', () => {
+  it('toggles each member once per reaction and wipes deleted messages', () => {
+    const target = { fromId: 'host_1', id: 'm1' };
+    let message = { text: 'hi' } as { text: string; reactions?: Record<string, string[]>; deleted?: boolean };
+    message = applyChatEvent(message, { kind: 'react', target, emoji: '👍', on: true }, 'viewer_1', 1);
+    message = applyChatEvent(message, { kind: 'react', target, emoji: '👍', on: true }, 'viewer_1', 2);
+    message = applyChatEvent(message, { kind: 'react', target, emoji: '🎉', on: true }, 'viewer_2', 3);
+    assert.deepEqual(message.reactions, { '👍': ['viewer_1'], '🎉': ['viewer_2'] });
+
+    message = applyChatEvent(message, { kind: 'react', target, emoji: '🎉', on: false }, 'viewer_2', 4);
+    assert.deepEqual(message.reactions, { '👍': ['viewer_1'] });
+
+    message = applyChatEvent(message, { kind: 'delete', target }, 'host_1', 5);
+    assert.equal(message.text, '');
+    assert.equal(message.reactions, undefined);
+    assert.equal(message.deleted, true);
+  });
+
+  it('lets authors change messages inside the window and the host delete any', () => {
+    const message = { authorId: 'viewer_1', sentAt: 0 };
+    assert.equal(mayChangeChatMessage('edit', message, 'viewer_1', false, CHAT_EDIT_WINDOW_MS), true);
+    assert.equal(mayChangeChatMessage('edit', message, 'viewer_1', false, CHAT_EDIT_WINDOW_MS + 1), false);
+    assert.equal(mayChangeChatMessage('delete', message, 'viewer_2', false, 0), false);
+    assert.equal(mayChangeChatMessage('edit', message, 'host_1', true, 0), false);
+    assert.equal(mayChangeChatMessage('delete', message, 'host_1', true, CHAT_EDIT_WINDOW_MS * 10), true);
+  });
+});
+
+describe('chat events over signaling', () => {
+  const { connect } = useTestServer();
+
+  const enter = async (type: 'create-room' | 'join-room', roomId: string, userId: string) => {
+    const client = await connect();
+    client.send({ type, roomId, userId });
+    await client.next('room-joined');
+    await client.next('chat-history');
+    return client;
+  };
+
+  it('applies reactions, replies and edits for everyone, late joiners included', async () => {
+    const host = await enter('create-room', 'events', 'host_e');
+    const viewer = await enter('join-room', 'events', 'viewer_e');
+    const original = { fromId: 'viewer_e', id: 'm1' };
+
+    viewer.send({ type: 'chat-message', roomId: 'events', userId: 'viewer_e', id: 'm1', text: 'helo' });
+    await host.next('chat-message');
+    host.send({ type: 'chat-message', roomId: 'events', userId: 'host_e', id: 'm2', text: 'hi!', replyTo: original });
+    assert.deepEqual((await viewer.next('chat-message')).replyTo, original);
+
+    viewer.send({ type: 'chat-event', roomId: 'events', event: { kind: 'edit', target: original, text: 'hello' } });
+    host.send({ type: 'chat-event', roomId: 'events', event: { kind: 'react', target: original, emoji: '❤️', on: true } });
+    // Everyone gets every event, the sender included
+    for (const client of [host, viewer]) {
+      assert.equal(((await client.next('chat-event')).event as { kind: string }).kind, 'edit');
+      assert.equal((await client.next('chat-event')).fromId, 'host_e');
+    }
+
+    const late = await connect();
+    late.send({ type: 'join-room', roomId: 'events', userId: 'viewer_late' });
+    const [edited, reply] = (await late.next('chat-history')).messages as ChatBroadcastMessage[];
+    assert.equal(edited.text, 'hello');
+    assert.equal(typeof edited.editedAt, 'number');
+    assert.deepEqual(edited.reactions, { '❤️': ['host_e'] });
+    assert.deepEqual(reply.replyTo, original);
+  });
+
+  it('lets only the author edit and the host delete anyone', async () => {
+    const host = await enter('create-room', 'events-2', 'host_d');
+    const viewer = await enter('join-room', 'events-2', 'viewer_d');
+    const hostMessage = { fromId: 'host_d', id: 'm1' };
+
+    host.send({ type: 'chat-message', roomId: 'events-2', userId: 'host_d', id: 'm1', text: 'rules' });
+    await viewer.next('chat-message');
+    viewer.send({ type: 'chat-event', roomId: 'events-2', event: { kind: 'edit', target: hostMessage, text: 'no rules' } });
+    assert.equal((await viewer.next('error')).code, 'forbidden');
+    viewer.send({ type: 'chat-event', roomId: 'events-2', event: { kind: 'delete', target: hostMessage } });
+    assert.equal((await viewer.next('error')).code, 'forbidden');
+
+    viewer.send({ type: 'chat-message', roomId: 'events-2', userId: 'viewer_d', id: 'm1', text: 'spam' });
+    await host.next('chat-message');
+    const spam = { fromId: 'viewer_d', id: 'm1' };
+    host.send({ type: 'chat-event', roomId: 'events-2', event: { kind: 'delete', target: spam } });
+    await Promise.all([host.next('chat-event'), viewer.next('chat-event')]);
+
+    viewer.send({ type: 'chat-event', roomId: 'events-2', event: { kind: 'react', target: spam, emoji: '😢', on: true } });
+    assert.equal((await viewer.next('error')).code, 'message-not-found');
+    await host.expectNone('chat-event');
+  });
+
+  it('refuses chat events from a connection posing as the author', async () => {
+    const host = await enter('create-room', 'events-3', 'host_i');
+    const viewer = await enter('join-room', 'events-3', 'viewer_i');
+    viewer.send({ type: 'chat-message', roomId: 'events-3', userId: 'viewer_i', id: 'm1', text: 'mine' });
+    await host.next('chat-message');
+
+    const impostor = await connect();
+    impostor.send({ type: 'join-room', roomId: 'events-3', userId: 'viewer_i' });
+    assert.equal((await impostor.next('error')).code, 'forbidden');
+    const target = { fromId: 'viewer_i', id: 'm1' };
+    impostor.send({ type: 'chat-event', roomId: 'events-3', event: { kind: 'edit', target, text: 'not mine' } });
+    assert.equal((await impostor.next('error')).code, 'not-in-room');
+    await Promise.all([host.expectNone('chat-event'), viewer.expectNone('chat-event')]);
+  });
+});
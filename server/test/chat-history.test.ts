@@ -0,0 +1,126 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { MemoryChatHistory, type ChatHistoryStore } from '../../shared/chat-history.ts';
+import { CHAT_HISTORY_PAGE_SIZE } from '../../shared/hub.ts';
+import type { ChatBroadcastMessage } from '../../shared/protocol.ts';
+import { SqliteChatHistory } from '../src/chat-history.ts';
+import { useTestServer } from './helpers.ts';
+
+// node:sqlite ships with Node 22.5+; older versions skip the SQLite tests
+const sqlite = await import('node:sqlite').catch(() => null);
+
+const chat = (id: string): ChatBroadcastMessage => ({
+  type: 'chat-message',
+  roomId: 'room',
+  userId: 'host_1',
+  fromId: 'host_1',
+  id,
+  text: id,
+  timestamp: 0,
+});
+
+const ids = (messages: unknown) => (messages as ChatBroadcastMessage[]).map((m) => m.id);
+
+function behavesAsHistory(create: (maxPerRoom: number, maxRooms?: number) => ChatHistoryStore) {
+  it('pages from the newest message back to the oldest one kept', () => {
+    const history = create(5);
+    for (let i = 1; i <= 7; i++) history.append('room', chat(`m${i}`));
+    history.append('other', chat('elsewhere'));
+
+    const newest = history.page('room', 2);
+    assert.deepEqual(ids(newest.messages), ['m6', 'm7']);
+    assert.notEqual(newest.cursor, null);
+
+    const rest = history.page('room', 10, newest.cursor!);
+    assert.deepEqual(ids(rest.messages), ['m3', 'm4', 'm5']);
+    assert.equal(rest.cursor, null);
+    assert.deepEqual(history.page('missing', 10), { messages: [], cursor: null });
+  });
+
+  it('finds and replaces a kept message by author and id', () => {
+    const history = create(5);
+    history.append('room', chat('m1'));
+    history.append('room', { ...chat('m1'), fromId: 'viewer_1' });
+
+    history.replace('room', { ...chat('m1'), text: 'edited' });
+    assert.equal(history.find('room', 'host_1', 'm1')?.text, 'edited');
+    assert.equal(history.find('room', 'viewer_1', 'm1')?.text, 'm1');
+    assert.equal(history.find('room', 'host_1', 'm2'), undefined);
+  });
+
+  it('forgets the rooms chatted in least recently, and cleared ones', () => {
+    const history = create(10, 2);
+    history.append('a', chat('a1'));
+    history.append('b', chat('b1'));
+    history.append('a', chat('a2'));
+    history.append('c', chat('c1'));
+
+    assert.deepEqual(ids(history.page('a', 10).messages), ['a1', 'a2']);
+    assert.deepEqual(history.page('b', 10).messages, []);
+
+    history.clear('a');
+    assert.deepEqual(history.page('a', 10).messages, []);
+    assert.deepEqual(ids(history.page('c', 10).messages), ['c1']);
+  });
+}
+
+describe('MemoryChatHistory', () => {
+  behavesAsHistory((maxPerRoom, maxRooms) => new MemoryChatHistory(maxPerRoom, maxRooms));
+});
+
+describe('SqliteChatHistory', { skip: !sqlite && 'node:sqlite is not available' }, () => {
+  behavesAsHistory(
+    (maxPerRoom, maxRooms) => new SqliteChatHistory(new sqlite!.DatabaseSync(':memory:'), maxPerRoom, maxRooms)
+  );
+});
+
+describe('chat history over signaling', () => {
+  const { connect } = useTestServer();
+
+  it('backfills late joiners and pages older messages on request', async () => {
+    const host = await connect();
+    host.send({ type: 'create-room', roomId: 'backlog', userId: 'host_h' });
+    await host.next('room-joined');
+    assert.deepEqual((await host.next('chat-history')).messages, []);
+
+    const total = CHAT_HISTORY_PAGE_SIZE + 5;
+    for (let i = 1; i <= total; i++) {
+      host.send({ type: 'chat-message', roomId: 'backlog', userId: 'host_h', id: `m${i}`, text: `hello ${i}` });
+    }
+    // Nobody else is in the room, so a ping round trip shows the server has handled them all
+    host.send({ type: 'ping', ts: 1 });
+    await host.next('pong');
+
+    const viewer = await connect();
+    viewer.send({ type: 'join-room', roomId: 'backlog', userId: 'viewer_h' });
+    await viewer.next('room-joined');
+    const first = await viewer.next('chat-history');
+    assert.equal((first.messages as unknown[]).length, CHAT_HISTORY_PAGE_SIZE);
+    assert.equal(ids(first.messages).at(-1), `m${total}`);
+
+    viewer.send({ type: 'chat-history', roomId: 'backlog', before: first.cursor });
+    const older = await viewer.next('chat-history');
+    assert.deepEqual(ids(older.messages), ['m1', 'm2', 'm3', 'm4', 'm5']);
+    assert.equal(older.cursor, null);
+  });
+
+  it('starts a room that reuses a closed room\'s code with no history', async () => {
+    const first = await connect();
+    first.send({ type: 'create-room', roomId: 'reused', userId: 'host_r1' });
+    await first.next('chat-history');
+    first.send({ type: 'chat-message', roomId: 'reused', userId: 'host_r1', id: 'm1', text: 'old news' });
+    first.send({ type: 'leave-room', roomId: 'reused' });
+    first.send({ type: 'ping', ts: 1 });
+    await first.next('pong');
+
+    const second = await connect();
+    second.send({ type: 'create-room', roomId: 'reused', userId: 'host_r2' });
+    assert.deepEqual((await second.next('chat-history')).messages, []);
+  });
+
+  it('keeps history from anyone outside the room', async () => {
+    const outsider = await connect();
+    outsider.send({ type: 'chat-history', roomId: 'backlog', before: 100 });
+    assert.equal((await outsider.next('error')).code, 'not-in-room');
+  });
+});
@@ -0,0 +1,176 @@
+// Real WebSocket clients for driving the signaling server in tests
+import { after, before } from 'node:test';
+import { WebSocket } from 'ws';
+import { PROTOCOL_VERSION } from '../../shared/protocol.ts';
+import { startSignalingServer, type SignalingServer, type SignalingServerOptions } from '../src/server.ts';
+
+export type Received = { type: string; [key: string]: unknown };
+
+export const silentLogger = { info() {}, warn() {}, error() {} };
+
+export function startTestServer(options: SignalingServerOptions = {}): Promise<SignalingServer> {
+  return startSignalingServer({ port: 0, host: '127.0.0.1', logger: silentLogger, ...options });
+}
+
+export interface ConnectOptions {
+  // Complete the protocol version handshake (default true)
+  handshake?: boolean;
+  // Identity token to present in hello, e.g. another client's to come back as it
+  token?: string;
+}
+
+// A server for the enclosing describe block, plus the clients its tests connect; all of them are
+// closed after the block
+export interface TestServerFixture {
+  readonly server: SignalingServer;
+  connect(options?: ConnectOptions): Promise<TestClient>;
+  // A host that created the room and got room-joined for it
+  hostRoom(roomId: string, userId: string, fields?: Record<string, unknown>): Promise<TestClient>;
+  // A viewer that joined the room and got room-joined for it
+  joinRoom(roomId: string, userId: string, fields?: Record<string, unknown>): Promise<TestClient>;
+}
+
+export function useTestServer(options: SignalingServerOptions = {}): TestServerFixture {
+  let server: SignalingServer | undefined;
+  const clients: TestClient[] = [];
+
+  before(async () => {
+    server = await startTestServer(options);
+  });
+
+  after(async () => {
+    await Promise.all(clients.map((c) => c.close()));
+    await server?.close();
+  });
+
+  const fixture: TestServerFixture = {
+    get server() {
+      if (!server) throw new Error('The test server is not running');
+      return server;
+    },
+    async connect(connectOptions) {
+      const client = await TestClient.connect(fixture.server.port, connectOptions);
+      clients.push(client);
+      return client;
+    },
+    async hostRoom(roomId, userId, fields = {}) {
+      const host = await fixture.connect();
+      host.send({ type: 'create-room', roomId, userId, ...fields });
+      await host.next('room-joined');
+      return host;
+    },
+    async joinRoom(roomId, userId, fields = {}) {
+      const viewer = await fixture.connect();
+      viewer.send({ type: 'join-room', roomId, userId, ...fields });
+      await viewer.next('room-joined');
+      return viewer;
+    },
+  };
+  return fixture;
+}
+
+// Messages a client received, taken out by type as a test waits for them
+export class Inbox {
+  private messages: Received[] = [];
+  private waiters: { type: string; resolve: (m: Received) => void }[] = [];
+
+  deliver(message: Received) {
+    const idx = this.waiters.findIndex((w) => w.type === message.type);
+    if (idx >= 0) {
+      const [waiter] = this.waiters.splice(idx, 1);
+      waiter.resolve(message);
+    } else {
+      this.messages.push(message);
+    }
+  }
+
+  // Resolve with the next message of the given type, buffered or upcoming
+  next(type: string, timeoutMs = 1000): Promise<Received> {
+    const idx = this.messages.findIndex((m) => m.type === type);
+    if (idx >= 0) {
+      return Promise.resolve(this.messages.splice(idx, 1)[0]);
+    }
+
+    return new Promise((resolve, reject) => {
+      const waiter = {
+        type,
+        resolve: (m: Received) => {
+          clearTimeout(timer);
+          resolve(m);
+        },
+      };
+      const timer = setTimeout(() => {
+        this.waiters.splice(this.waiters.indexOf(waiter), 1);
+        reject(new Error(`Timed out waiting for ${type}`));
+      }, timeoutMs);
+      this.waiters.push(waiter);
+    });
+  }
+
+  // Assert that no message of the given type arrives within the window
+  async expectNone(type: string, windowMs = 150): Promise<void> {
+    try {
+      const message = await this.next(type, windowMs);
+      throw new Error(`Unexpected ${type}: ${JSON.stringify(message)}`);
+    } catch (err) {
+      if ((err as Error).message.startsWith('Timed out')) return;
+      throw err;
+    }
+  }
+}
+
+export class TestClient {
+  // Identity token the server issued in welcome
+  token: string | undefined;
+  private inbox = new Inbox();
+
+  private constructor(readonly socket: WebSocket) {
+    socket.on('message', (raw) => this.inbox.deliver(JSON.parse(raw.toString()) as Received));
+  }
+
+  // Connect and, unless disabled, complete the protocol version handshake
+  static async connect(port: number, { handshake = true, token }: ConnectOptions = {}): Promise<TestClient> {
+    const client = await new Promise<TestClient>((resolve, reject) => {
+      const socket = new WebSocket(`ws://127.0.0.1:${port}`);
+      socket.once('open', () => resolve(new TestClient(socket)));
+      socket.once('error', reject);
+    });
+
+    if (handshake) {
+      client.send({ type: 'hello', version: PROTOCOL_VERSION, token });
+      client.token = (await client.next('welcome')).token as string;
+    }
+    return client;
+  }
+
+  closed(): Promise<number> {
+    return new Promise((resolve) => this.socket.once('close', (code) => resolve(code)));
+  }
+
+  send(message: Record<string, unknown>) {
+    this.socket.send(JSON.stringify(message));
+  }
+
+  sendRaw(payload: string) {
+    this.socket.send(payload);
+  }
+
+  next(type: string, timeoutMs?: number): Promise<Received> {
+    return this.inbox.next(type, timeoutMs);
+  }
+
+  expectNone(type: string, windowMs?: number): Promise<void> {
+    return this.inbox.expectNone(type, windowMs);
+  }
+
+  close(): Promise<void> {
+    return new Promise((resolve) => {
+      if (this.socket.readyState === WebSocket.CLOSED) {
+        resolve();
+        return;
+      }
+      this.socket.once('close', () => resolve());
+      this.socket.close();
+    });
+  }
+}
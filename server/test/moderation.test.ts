@@ -0,0 +1,77 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { useTestServer } from './helpers.ts';
+
+describe('host moderation', () => {
+  const fixture = useTestServer();
+  const { connect, hostRoom, joinRoom } = fixture;
+
+  it('removes a kicked viewer, who may come back', async () => {
+    const host = await hostRoom('mod-kick', 'host_k');
+    const viewer = await joinRoom('mod-kick', 'viewer_k');
+    await host.next('viewer-joined');
+
+    host.send({ type: 'moderate', roomId: 'mod-kick', userId: 'viewer_k', action: 'kick' });
+    assert.equal((await viewer.next('removed')).banned, false);
+    assert.equal((await host.next('viewer-left')).userId, 'viewer_k');
+    assert.equal(fixture.server.rooms.getMember('mod-kick', 'viewer_k'), undefined);
+
+    viewer.send({ type: 'join-room', roomId: 'mod-kick', userId: 'viewer_k' });
+    await viewer.next('room-joined');
+  });
+
+  it('keeps a banned viewer out, under any peer id', async () => {
+    const host = await hostRoom('mod-ban', 'host_b');
+    const viewer = await joinRoom('mod-ban', 'viewer_b');
+    await host.next('viewer-joined');
+
+    host.send({ type: 'moderate', roomId: 'mod-ban', userId: 'viewer_b', action: 'ban' });
+    assert.equal((await viewer.next('removed')).banned, true);
+    await host.next('viewer-left');
+
+    const again = await connect({ token: viewer.token });
+    again.send({ type: 'join-room', roomId: 'mod-ban', userId: 'viewer_b' });
+    assert.equal((await again.next('error')).code, 'banned');
+    // A reloaded page picks a fresh peer id but keeps its identity token
+    const reloaded = await connect({ token: viewer.token });
+    reloaded.send({ type: 'join-room', roomId: 'mod-ban', userId: 'viewer_b_reloaded' });
+    assert.equal((await reloaded.next('error')).code, 'banned');
+    await host.expectNone('viewer-joined');
+  });
+
+  it('drops chat from a muted viewer until unmuted', async () => {
+    const host = await hostRoom('mod-mute', 'host_m');
+    const viewer = await joinRoom('mod-mute', 'viewer_m');
+    await host.next('participant-joined');
+
+    host.send({ type: 'moderate', roomId: 'mod-mute', userId: 'viewer_m', action: 'mute' });
+    assert.equal((await viewer.next('chat-muted')).muted, true);
+    // Everyone's roster shows the mute, so a host that reloads still filters the viewer
+    assert.deepEqual((await host.next('participant-updated')).participant, { userId: 'viewer_m', role: 'viewer', muted: true });
+    viewer.send({ type: 'chat-message', roomId: 'mod-mute', userId: 'viewer_m', text: 'spam' });
+    assert.equal((await viewer.next('error')).code, 'chat-muted');
+    await host.expectNone('chat-message');
+
+    // Rejoining does not lift the mute
+    const again = await connect({ token: viewer.token });
+    again.send({ type: 'join-room', roomId: 'mod-mute', userId: 'viewer_m' });
+    assert.equal((await again.next('chat-muted')).muted, true);
+    assert.equal(((await host.next('participant-joined')).participant as { muted?: boolean }).muted, true);
+
+    host.send({ type: 'moderate', roomId: 'mod-mute', userId: 'viewer_m', action: 'unmute' });
+    assert.equal((await again.next('chat-muted')).muted, false);
+    again.send({ type: 'chat-message', roomId: 'mod-mute', userId: 'viewer_m', text: 'sorry' });
+    assert.equal((await host.next('chat-message')).text, 'sorry');
+  });
+
+  it('only lets the host moderate, and only viewers', async () => {
+    const host = await hostRoom('mod-forbid', 'host_f');
+    const viewer = await joinRoom('mod-forbid', 'viewer_f');
+
+    viewer.send({ type: 'moderate', roomId: 'mod-forbid', userId: 'host_f', action: 'kick' });
+    assert.equal((await viewer.next('error')).code, 'forbidden');
+
+    host.send({ type: 'moderate', roomId: 'mod-forbid', userId: 'host_f', action: 'ban' });
+    assert.equal((await host.next('error')).code, 'peer-not-found');
+  });
+});
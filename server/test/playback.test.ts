@@ -0,0 +1,63 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import type { PlaybackState } from '../../shared/protocol.ts';
+import { useTestServer } from './helpers.ts';
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+describe('watch-party playback', () => {
+  const { connect } = useTestServer();
+
+  it('fans host state out to viewers and catches late joiners up', async () => {
+    const host = await connect();
+    host.send({ type: 'create-room', roomId: 'party', userId: 'host_1' });
+    await host.next('room-joined');
+    const early = await connect();
+    early.send({ type: 'join-room', roomId: 'party', userId: 'viewer_1' });
+    await early.next('room-joined');
+
+    const state: PlaybackState = {
+      source: { kind: 'url', url: 'https://example.com/movie.mp4' },
+      playing: true,
+      position: 10,
+      rate: 2,
+      seq: 1,
+    };
+    host.send({ type: 'playback', roomId: 'party', state });
+    const received = await early.next('playback');
+    assert.equal(received.fromId, 'host_1');
+    assert.deepEqual(received.state, state);
+
+    await sleep(200);
+    const late = await connect();
+    late.send({ type: 'join-room', roomId: 'party', userId: 'viewer_2' });
+    const replayed = (await late.next('playback')).state as PlaybackState;
+    // 200 ms at 2x moved the playhead on by at least 0.4 s
+    assert.ok(replayed.position >= 10.4, `position ${replayed.position}`);
+    assert.equal(replayed.seq, 1);
+
+    // Ending the party clears the replay
+    host.send({ type: 'playback', roomId: 'party', state: { ...state, source: null, playing: false, seq: 2 } });
+    await early.next('playback');
+    const afterEnd = await connect();
+    afterEnd.send({ type: 'join-room', roomId: 'party', userId: 'viewer_3' });
+    await afterEnd.next('room-joined');
+    await afterEnd.expectNone('playback');
+  });
+
+  it('only lets the host control playback', async () => {
+    const host = await connect();
+    host.send({ type: 'create-room', roomId: 'party-2', userId: 'host_2' });
+    await host.next('room-joined');
+    const viewer = await connect();
+    viewer.send({ type: 'join-room', roomId: 'party-2', userId: 'viewer_4' });
+    await viewer.next('room-joined');
+
+    viewer.send({
+      type: 'playback',
+      roomId: 'party-2',
+      state: { source: { kind: 'file', name: 'a.mp4', size: 1 }, playing: true, position: 0, rate: 1, seq: 1 },
+    });
+    assert.equal((await viewer.next('error')).code, 'forbidden');
+  });
+});
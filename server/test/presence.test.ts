@@ -0,0 +1,41 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { MAX_DISPLAY_NAME_LENGTH } from '../../shared/protocol.ts';
+import { useTestServer } from './helpers.ts';
+
+describe('presence', () => {
+  const { hostRoom, joinRoom } = useTestServer();
+
+  it('sends the roster on entry and joins and leaves to everyone else', async () => {
+    const host = await hostRoom('presence', 'host_p', { name: 'Hana' });
+    assert.deepEqual((await host.next('roster')).participants, [{ userId: 'host_p', role: 'host', name: 'Hana' }]);
+
+    const ann = await joinRoom('presence', 'viewer_ann', { name: '  Ann  ' });
+    assert.deepEqual((await ann.next('roster')).participants, [
+      { userId: 'host_p', role: 'host', name: 'Hana' },
+      { userId: 'viewer_ann', role: 'viewer', name: 'Ann' },
+    ]);
+    assert.deepEqual((await host.next('participant-joined')).participant, {
+      userId: 'viewer_ann',
+      role: 'viewer',
+      name: 'Ann',
+    });
+
+    const bob = await joinRoom('presence', 'viewer_bob', { name: 'Bob' });
+    await Promise.all([host.next('participant-joined'), ann.next('participant-joined')]);
+
+    await bob.close();
+    const [toHost, toAnn] = await Promise.all([host.next('participant-left'), ann.next('participant-left')]);
+    assert.equal(toHost.userId, 'viewer_bob');
+    assert.equal(toAnn.userId, 'viewer_bob');
+  });
+
+  it('stamps chat with the registered name and caps its length', async () => {
+    const host = await hostRoom('presence-chat', 'host_c');
+    const long = 'x'.repeat(MAX_DISPLAY_NAME_LENGTH + 10);
+    const viewer = await joinRoom('presence-chat', 'viewer_c', { name: long });
+
+    viewer.send({ type: 'chat-message', roomId: 'presence-chat', userId: 'viewer_c', username: 'Host', text: 'hi' });
+    assert.equal((await host.next('chat-message')).username, long.slice(0, MAX_DISPLAY_NAME_LENGTH));
+  });
+});
@@ -0,0 +1,291 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { PROTOCOL_VERSION } from '../../shared/protocol.ts';
+import { VERSION_MISMATCH_CLOSE_CODE } from '../src/server.ts';
+import { useTestServer } from './helpers.ts';
+
+describe('signaling server', () => {
+  const fixture = useTestServer();
+  const { connect, hostRoom, joinRoom } = fixture;
+
+  it('serves a health endpoint', async () => {
+    const res = await fetch(`http://127.0.0.1:${fixture.server.port}/health`);
+    assert.equal(res.status, 200);
+    const body = (await res.json()) as { status: string; rooms: number };
+    assert.equal(body.status, 'ok');
+    assert.equal(typeof body.rooms, 'number');
+  });
+
+  it('completes the version handshake', async () => {
+    const client = await connect({ handshake: false });
+    client.send({ type: 'hello', version: PROTOCOL_VERSION });
+    const welcome = await client.next('welcome');
+    assert.equal(welcome.version, PROTOCOL_VERSION);
+  });
+
+  it('rejects a client speaking another protocol version', async () => {
+    const client = await connect({ handshake: false });
+    const closed = client.closed();
+    client.send({ type: 'hello', version: PROTOCOL_VERSION + 1 });
+
+    const error = await client.next('error');
+    assert.equal(error.code, 'version-mismatch');
+    assert.equal(error.expectedVersion, PROTOCOL_VERSION);
+    assert.equal(await closed, VERSION_MISMATCH_CLOSE_CODE);
+  });
+
+  it('answers a timestamped ping with the server clock', async () => {
+    const client = await connect();
+    const before = Date.now();
+    client.send({ type: 'ping', ts: 12345 });
+    const pong = await client.next('pong');
+    assert.equal(pong.ts, 12345);
+    const serverTime = pong.serverTime as number;
+    assert.ok(serverTime >= before && serverTime <= Date.now());
+  });
+
+  it('requires the handshake before anything else', async () => {
+    const client = await connect({ handshake: false });
+    client.send({ type: 'create-room', roomId: 'room-early', userId: 'host_e' });
+    const error = await client.next('error');
+    assert.equal(error.code, 'handshake-required');
+    assert.equal(fixture.server.rooms.get('room-early'), undefined);
+  });
+
+  it('notifies the host when a viewer joins', async () => {
+    const host = await hostRoom('room-join', 'host_1');
+    const viewer = await connect();
+    viewer.send({ type: 'join-room', roomId: 'room-join', userId: 'viewer_1' });
+    const joined = await viewer.next('room-joined');
+
+    assert.equal(joined.roomId, 'room-join');
+    assert.equal(joined.hostId, 'host_1');
+
+    const announced = await host.next('viewer-joined');
+    assert.equal(announced.userId, 'viewer_1');
+  });
+
+  it('rejects joining a room that does not exist', async () => {
+    const viewer = await connect();
+    viewer.send({ type: 'join-room', roomId: 'nope', userId: 'viewer_x' });
+    const error = await viewer.next('error');
+    assert.equal(error.code, 'room-not-found');
+  });
+
+  it('relays offer, answer and ICE candidates stamped with fromId', async () => {
+    const host = await hostRoom('room-relay', 'host_r');
+    const viewer = await joinRoom('room-relay', 'viewer_r');
+    await host.next('viewer-joined');
+
+    const offer = { type: 'offer', sdp: 'v=0-offer' };
+    host.send({ type: 'offer', roomId: 'room-relay', targetId: 'viewer_r', data: offer });
+    const gotOffer = await viewer.next('offer');
+    assert.equal(gotOffer.fromId, 'host_r');
+    assert.deepEqual(gotOffer.data, offer);
+
+    const answer = { type: 'answer', sdp: 'v=0-answer' };
+    viewer.send({ type: 'answer', roomId: 'room-relay', targetId: 'host_r', data: answer });
+    const gotAnswer = await host.next('answer');
+    assert.equal(gotAnswer.fromId, 'viewer_r');
+    assert.deepEqual(gotAnswer.data, answer);
+
+    const candidate = { candidate: 'candidate:1 1 udp 1 127.0.0.1 5000 typ host', sdpMid: '0' };
+    viewer.send({ type: 'ice-candidate', roomId: 'room-relay', targetId: 'host_r', data: candidate });
+    const gotCandidate = await host.next('ice-candidate');
+    assert.equal(gotCandidate.fromId, 'viewer_r');
+    assert.deepEqual(gotCandidate.data, candidate);
+  });
+
+  it('ignores a spoofed fromId and uses the sender identity', async () => {
+    const host = await hostRoom('room-spoof', 'host_s');
+    const viewer = await joinRoom('room-spoof', 'viewer_s');
+    await host.next('viewer-joined');
+
+    viewer.send({
+      type: 'answer',
+      roomId: 'room-spoof',
+      targetId: 'host_s',
+      fromId: 'host_s',
+      data: { type: 'answer', sdp: '' },
+    });
+    const gotAnswer = await host.next('answer');
+    assert.equal(gotAnswer.fromId, 'viewer_s');
+  });
+
+  it('reports relays to peers outside the room', async () => {
+    const host = await hostRoom('room-missing', 'host_m');
+    host.send({ type: 'offer', roomId: 'room-missing', targetId: 'ghost', data: { type: 'offer', sdp: '' } });
+    const error = await host.next('error');
+    assert.equal(error.code, 'peer-not-found');
+  });
+
+  it('does not relay before joining a room', async () => {
+    const stranger = await connect();
+    stranger.send({ type: 'offer', roomId: 'room-x', targetId: 'host_1', data: { type: 'offer', sdp: '' } });
+    const error = await stranger.next('error');
+    assert.equal(error.code, 'not-in-room');
+  });
+
+  it('broadcasts chat messages to everyone else in the room', async () => {
+    const host = await hostRoom('room-chat', 'host_c');
+    const a = await joinRoom('room-chat', 'viewer_a');
+    const b = await joinRoom('room-chat', 'viewer_b');
+
+    a.send({ type: 'chat-message', roomId: 'room-chat', userId: 'viewer_a', username: 'Ann', text: 'hi' });
+
+    const [toHost, toB] = await Promise.all([host.next('chat-message'), b.next('chat-message')]);
+    for (const message of [toHost, toB]) {
+      assert.equal(message.fromId, 'viewer_a');
+      assert.equal(message.username, 'Ann');
+      assert.equal(message.text, 'hi');
+      assert.equal(typeof message.timestamp, 'number');
+    }
+    assert.equal(toHost.id, toB.id);
+    await a.expectNone('chat-message');
+  });
+
+  it('keeps the sender\'s chat message id and skips members it reached directly', async () => {
+    const host = await hostRoom('room-chat-direct', 'host_cd');
+    const a = await joinRoom('room-chat-direct', 'viewer_cd1');
+    const b = await joinRoom('room-chat-direct', 'viewer_cd2');
+
+    a.send({ type: 'chat-message', roomId: 'room-chat-direct', userId: 'viewer_cd1', id: 'msg_1', text: 'hi', direct: ['host_cd'] });
+    assert.equal((await b.next('chat-message')).id, 'msg_1');
+    await host.expectNone('chat-message');
+  });
+
+  it('passes viewer latency reports to the host only', async () => {
+    const host = await hostRoom('room-latency', 'host_lat');
+    const viewer = await joinRoom('room-latency', 'viewer_lat');
+    const other = await joinRoom('room-latency', 'viewer_lat2');
+
+    viewer.send({ type: 'latency-report', roomId: 'room-latency', latencyMs: 180 });
+    const report = await host.next('latency-report');
+    assert.equal(report.fromId, 'viewer_lat');
+    assert.equal(report.latencyMs, 180);
+    await other.expectNone('latency-report');
+
+    host.send({ type: 'latency-report', roomId: 'room-latency', latencyMs: 0 });
+    assert.equal((await host.next('error')).code, 'forbidden');
+  });
+
+  it('tells the host when a viewer leaves or disconnects', async () => {
+    const host = await hostRoom('room-leave', 'host_l');
+    const leaver = await joinRoom('room-leave', 'viewer_leave');
+    const dropper = await joinRoom('room-leave', 'viewer_drop');
+
+    leaver.send({ type: 'leave-room', roomId: 'room-leave' });
+    assert.equal((await host.next('viewer-left')).userId, 'viewer_leave');
+
+    await dropper.close();
+    assert.equal((await host.next('viewer-left')).userId, 'viewer_drop');
+  });
+
+  it('tells viewers when the host leaves and drops empty rooms', async () => {
+    const host = await hostRoom('room-host-left', 'host_h');
+    const viewer = await joinRoom('room-host-left', 'viewer_h');
+
+    await host.close();
+    const message = await viewer.next('host-left');
+    assert.equal(message.userId, 'host_h');
+
+    viewer.send({ type: 'leave-room', roomId: 'room-host-left' });
+    await viewer.expectNone('error');
+    assert.equal(fixture.server.rooms.get('room-host-left'), undefined);
+  });
+
+  it('re-announces waiting viewers when the host reconnects', async () => {
+    const host = await hostRoom('room-rehost', 'host_rh');
+    await joinRoom('room-rehost', 'viewer_rh');
+    await host.next('viewer-joined');
+    await host.close();
+
+    const again = await connect({ token: host.token });
+    again.send({ type: 'create-room', roomId: 'room-rehost', userId: 'host_rh' });
+    await again.next('room-joined');
+    const announced = await again.next('viewer-joined');
+    assert.equal(announced.userId, 'viewer_rh');
+  });
+
+  it('rejects creating a room another host is live in', async () => {
+    await hostRoom('room-taken', 'host_t1');
+    const rival = await connect();
+    rival.send({ type: 'create-room', roomId: 'room-taken', userId: 'host_t2' });
+    assert.equal((await rival.next('error')).code, 'room-exists');
+    assert.equal(fixture.server.rooms.get('room-taken')?.hostId, 'host_t1');
+  });
+
+  it('keeps the host and members to the clients that hold them', async () => {
+    const host = await hostRoom('room-owned', 'host_o');
+    const viewer = await joinRoom('room-owned', 'viewer_o');
+    await host.next('viewer-joined');
+    await host.close();
+    await viewer.next('host-left');
+
+    // Peer ids are public; knowing them is not enough to come back as their owners
+    const impostor = await connect();
+    impostor.send({ type: 'create-room', roomId: 'room-owned', userId: 'host_o' });
+    assert.equal((await impostor.next('error')).code, 'room-exists');
+    impostor.send({ type: 'join-room', roomId: 'room-owned', userId: 'viewer_o' });
+    assert.equal((await impostor.next('error')).code, 'forbidden');
+    assert.equal(fixture.server.rooms.getMember('room-owned', 'viewer_o')?.client.identity, viewer.token);
+  });
+
+  it('keeps a reconnected viewer when its stale socket closes', async () => {
+    const host = await hostRoom('room-stale', 'host_st');
+    const stale = await joinRoom('room-stale', 'viewer_st');
+    await host.next('viewer-joined');
+
+    const again = await connect({ token: stale.token });
+    again.send({ type: 'join-room', roomId: 'room-stale', userId: 'viewer_st' });
+    await again.next('room-joined');
+    await host.next('viewer-joined');
+    await stale.close();
+
+    await host.expectNone('viewer-left');
+    assert.ok(fixture.server.rooms.getMember('room-stale', 'viewer_st'));
+  });
+
+  it('rejects malformed and unknown messages', async () => {
+    const client = await connect();
+
+    client.sendRaw('not json');
+    assert.equal((await client.next('error')).code, 'invalid-message');
+
+    client.send({ type: 'create-room' });
+    assert.equal((await client.next('error')).code, 'invalid-message');
+
+    client.send({ type: 'offer', roomId: 'r', targetId: 't', data: { type: 'bogus' } });
+    assert.equal((await client.next('error')).code, 'invalid-message');
+
+    client.send({ type: 'teleport' });
+    assert.equal((await client.next('error')).code, 'unknown-type');
+
+    client.send({ type: 'ping', ts: Date.now() });
+    await client.expectNone('error');
+  });
+});
+
+describe('identity tokens', () => {
+  const { connect, hostRoom, joinRoom } = useTestServer({ maxIdentities: 4 });
+
+  it('keeps honouring a host token through a burst of new connections', async () => {
+    const host = await hostRoom('room-flood', 'host_f');
+    const viewer = await joinRoom('room-flood', 'viewer_f');
+    await host.close();
+    await viewer.next('host-left');
+
+    // Enough fresh identities to push the host's out of a plain recency window
+    const flood = [];
+    for (let i = 0; i < 6; i++) flood.push(await connect());
+
+    const again = await connect({ token: host.token });
+    assert.equal(again.token, host.token);
+    again.send({ type: 'create-room', roomId: 'room-flood', userId: 'host_f' });
+    assert.equal((await again.next('room-joined')).role, 'host');
+
+    // Tokens nothing refers to are still forgotten
+    const stray = await connect({ token: flood[0].token });
+    assert.notEqual(stray.token, flood[0].token);
+  });
+});
@@ -0,0 +1,173 @@
+import { after, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { RTCPeerConnection, RTCRtpCodecParameters } from 'werift';
+import type { SfuBackend } from '../../shared/hub.ts';
+import { SFU_PEER_ID, type RelayMessage, type Role, type ServerMessage } from '../../shared/protocol.ts';
+import { chooseRid, WeriftSfu } from '../src/sfu.ts';
+import { useTestServer } from './helpers.ts';
+
+// Records what the hub hands over and lets the test speak as the SFU
+class FakeSfu implements SfuBackend {
+  deliver: (roomId: string, userId: string, message: ServerMessage) => void = () => {};
+  viewers: string[] = [];
+  removed: string[] = [];
+  signals: { userId: string; role: Role; message: RelayMessage }[] = [];
+
+  attach(deliver: (roomId: string, userId: string, message: ServerMessage) => void) {
+    this.deliver = deliver;
+  }
+  addViewer(_roomId: string, userId: string) {
+    this.viewers.push(userId);
+  }
+  removePeer(_roomId: string, userId: string) {
+    this.removed.push(userId);
+  }
+  handleSignal(_roomId: string, userId: string, role: Role, message: RelayMessage) {
+    this.signals.push({ userId, role, message });
+  }
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+describe('SFU rooms', () => {
+  const sfu = new FakeSfu();
+  const { connect } = useTestServer({ sfu });
+  const meshServer = useTestServer();
+
+  it('advertises SFU mode and hands viewers to the SFU', async () => {
+    const host = await connect();
+    host.send({ type: 'create-room', roomId: 'sfu-room', userId: 'host_1' });
+    const hostJoined = await host.next('room-joined');
+    assert.equal(hostJoined.mode, 'sfu');
+
+    const viewer = await connect();
+    viewer.send({ type: 'join-room', roomId: 'sfu-room', userId: 'viewer_1' });
+    const viewerJoined = await viewer.next('room-joined');
+    assert.equal(viewerJoined.mode, 'sfu');
+    await host.next('viewer-joined');
+    assert.deepEqual(sfu.viewers, ['viewer_1']);
+
+    viewer.close();
+    await host.next('viewer-left');
+    assert.deepEqual(sfu.removed, ['viewer_1']);
+  });
+
+  it('routes messages addressed to the SFU and delivers its replies', async () => {
+    const host = await connect();
+    host.send({ type: 'create-room', roomId: 'sfu-relay', userId: 'host_2' });
+    await host.next('room-joined');
+
+    host.send({ type: 'offer', roomId: 'sfu-relay', targetId: SFU_PEER_ID, data: { type: 'offer', sdp: 'v=0' }, session: 1 });
+    await host.expectNone('error');
+    assert.equal(sfu.signals.length, 1);
+    assert.equal(sfu.signals[0].userId, 'host_2');
+    assert.equal(sfu.signals[0].role, 'host');
+
+    sfu.deliver('sfu-relay', 'host_2', {
+      type: 'answer',
+      roomId: 'sfu-relay',
+      targetId: 'host_2',
+      fromId: SFU_PEER_ID,
+      data: { type: 'answer', sdp: 'v=0' },
+    });
+    const answer = await host.next('answer');
+    assert.equal(answer.fromId, SFU_PEER_ID);
+  });
+
+  it('routes layer requests to the SFU', async () => {
+    const host = await connect();
+    host.send({ type: 'create-room', roomId: 'sfu-layers', userId: 'host_5' });
+    await host.next('room-joined');
+    const viewer = await connect();
+    viewer.send({ type: 'join-room', roomId: 'sfu-layers', userId: 'viewer_5' });
+    await viewer.next('room-joined');
+
+    viewer.send({ type: 'layer-request', roomId: 'sfu-layers', targetId: SFU_PEER_ID, layer: 'low' });
+    await viewer.expectNone('error');
+    const signal = sfu.signals.find((s) => s.userId === 'viewer_5');
+    assert.deepEqual(signal?.message, { type: 'layer-request', roomId: 'sfu-layers', targetId: SFU_PEER_ID, layer: 'low' });
+
+    viewer.send({ type: 'layer-request', roomId: 'sfu-layers', targetId: SFU_PEER_ID, layer: 'tiny' });
+    assert.equal((await viewer.next('error')).code, 'invalid-message');
+  });
+
+  it('lets the host ask for a mesh room', async () => {
+    const host = await connect();
+    host.send({ type: 'create-room', roomId: 'mesh-room', userId: 'host_3', mode: 'mesh' });
+    const joined = await host.next('room-joined');
+    assert.equal(joined.mode, 'mesh');
+
+    host.send({ type: 'offer', roomId: 'mesh-room', targetId: SFU_PEER_ID, data: { type: 'offer', sdp: 'v=0' } });
+    const error = await host.next('error');
+    assert.equal(error.code, 'peer-not-found');
+  });
+
+  it('falls back to mesh when the server has no SFU', async () => {
+    const host = await meshServer.connect();
+    host.send({ type: 'create-room', roomId: 'wants-sfu', userId: 'host_4', mode: 'sfu' });
+    const joined = await host.next('room-joined');
+    assert.equal(joined.mode, 'mesh');
+  });
+});
+
+describe('chooseRid', () => {
+  it('picks the wanted layer, else the next worse, else the next better', () => {
+    assert.equal(chooseRid(['h', 'm', 'l'], 'medium'), 'm');
+    assert.equal(chooseRid(['h', 'l'], 'medium'), 'l');
+    assert.equal(chooseRid(['h'], 'low'), 'h');
+    assert.equal(chooseRid([], 'high'), undefined);
+  });
+});
+
+describe('werift SFU', () => {
+  const sfu = new WeriftSfu({ logger: { info() {}, warn() {}, error() {} } });
+  const peers: RTCPeerConnection[] = [];
+
+  // Registered first so the peers close before the signaling server does
+  after(async () => {
+    await Promise.all(peers.map((pc) => pc.close()));
+  });
+
+  const { connect } = useTestServer({ sfu });
+
+  it('answers the host and offers its tracks to viewers', async () => {
+    const host = await connect();
+    const viewer = await connect();
+
+    host.send({ type: 'create-room', roomId: 'forward', userId: 'host_1' });
+    await host.next('room-joined');
+    viewer.send({ type: 'join-room', roomId: 'forward', userId: 'viewer_1' });
+    await viewer.next('room-joined');
+
+    // Stand-in for the browser host: publish one VP8 video track
+    const publisher = new RTCPeerConnection({
+      codecs: { video: [new RTCRtpCodecParameters({ mimeType: 'video/VP8', clockRate: 90000 })] },
+    });
+    peers.push(publisher);
+    publisher.addTransceiver('video', { direction: 'sendonly' });
+    await publisher.setLocalDescription(await publisher.createOffer());
+    host.send({
+      type: 'offer',
+      roomId: 'forward',
+      targetId: SFU_PEER_ID,
+      data: { type: 'offer', sdp: publisher.localDescription?.sdp },
+      session: 1,
+    });
+
+    const answer = await host.next('answer', 5000);
+    assert.equal(answer.fromId, SFU_PEER_ID);
+    assert.match(String((answer.data as { sdp: string }).sdp), /VP8/);
+
+    const offer = await viewer.next('offer', 5000);
+    assert.equal(offer.fromId, SFU_PEER_ID);
+    assert.equal(typeof offer.session, 'number');
+    const sdp = String((offer.data as { sdp: string }).sdp);
+    assert.match(sdp, /m=video/);
+    assert.match(sdp, /a=sendonly/);
+
+    viewer.close();
+    host.close();
+    await sleep(50);
+    assert.equal(sfu.roomCount, 0);
+  });
+});
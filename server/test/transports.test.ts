@@ -0,0 +1,190 @@
+import { after, before, describe, it, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { SignalingHub, VERSION_MISMATCH_CLOSE_CODE } from '../../shared/hub.ts';
+import { PROTOCOL_VERSION } from '../../shared/protocol.ts';
+import {
+  BroadcastChannelTransport,
+  HUB_RESTART_CLOSE_CODE,
+  InMemoryTransport,
+  type SignalingTransport,
+} from '../../src/lib/transports.ts';
+import { Inbox, silentLogger, type Received } from './helpers.ts';
+
+// Drives one transport the way SignalingService does: hello first, then room traffic
+class TransportClient {
+  // Identity token the hub issued in welcome
+  token: string | undefined;
+  readonly closed: Promise<{ code: number; reason: string }>;
+  private inbox = new Inbox();
+
+  private constructor(readonly transport: SignalingTransport) {
+    transport.onmessage = (data) => this.inbox.deliver(JSON.parse(data) as Received);
+    this.closed = new Promise((resolve) => {
+      transport.onclose = (code, reason) => resolve({ code, reason });
+    });
+  }
+
+  // Wait for the transport to open and, unless disabled, complete the handshake
+  static async open(
+    transport: SignalingTransport,
+    { handshake = true, token }: { handshake?: boolean; token?: string } = {}
+  ): Promise<TransportClient> {
+    const client = new TransportClient(transport);
+    await new Promise<void>((resolve, reject) => {
+      transport.onopen = resolve;
+      transport.onerror = reject;
+    });
+    if (handshake) {
+      client.send({ type: 'hello', version: PROTOCOL_VERSION, token });
+      client.token = (await client.next('welcome')).token as string;
+    }
+    return client;
+  }
+
+  send(message: Record<string, unknown>) {
+    this.transport.send(JSON.stringify(message));
+  }
+
+  next(type: string): Promise<Received> {
+    return this.inbox.next(type);
+  }
+}
+
+describe('in-memory transport', () => {
+  const hub = new SignalingHub({ logger: silentLogger });
+  const open = (options?: { handshake?: boolean; token?: string }) =>
+    TransportClient.open(new InMemoryTransport(hub), options);
+
+  it('completes the version handshake with the hub', async () => {
+    const client = await open({ handshake: false });
+    client.send({ type: 'create-room', roomId: 'mem-early', userId: 'host_e' });
+    assert.equal((await client.next('error')).code, 'handshake-required');
+
+    client.send({ type: 'hello', version: PROTOCOL_VERSION });
+    const welcome = await client.next('welcome');
+    assert.equal(welcome.version, PROTOCOL_VERSION);
+    assert.equal(typeof welcome.token, 'string');
+  });
+
+  it('closes when the hub turns the client away', async () => {
+    const client = await open({ handshake: false });
+    client.send({ type: 'hello', version: PROTOCOL_VERSION + 1 });
+    assert.equal((await client.closed).code, VERSION_MISMATCH_CLOSE_CODE);
+    assert.equal(client.transport.state, 'closed');
+  });
+
+  it('creates and joins rooms and relays offers and answers', async () => {
+    const host = await open();
+    host.send({ type: 'create-room', roomId: 'mem-room', userId: 'host_1' });
+    assert.equal((await host.next('room-joined')).role, 'host');
+
+    const viewer = await open();
+    viewer.send({ type: 'join-room', roomId: 'mem-room', userId: 'viewer_1' });
+    assert.equal((await viewer.next('room-joined')).hostId, 'host_1');
+    assert.equal((await host.next('viewer-joined')).userId, 'viewer_1');
+
+    const offer = { type: 'offer', sdp: 'v=0' };
+    host.send({ type: 'offer', roomId: 'mem-room', targetId: 'viewer_1', data: offer });
+    const relayed = await viewer.next('offer');
+    assert.equal(relayed.fromId, 'host_1');
+    assert.deepEqual(relayed.data, offer);
+
+    viewer.send({ type: 'answer', roomId: 'mem-room', targetId: 'host_1', data: { type: 'answer', sdp: 'v=0' } });
+    assert.equal((await host.next('answer')).fromId, 'viewer_1');
+  });
+
+  it('rejoins the room on a new transport after closing the old one', async () => {
+    const host = await open();
+    host.send({ type: 'create-room', roomId: 'mem-rejoin', userId: 'host_r' });
+    await host.next('room-joined');
+    const viewer = await open();
+    viewer.send({ type: 'join-room', roomId: 'mem-rejoin', userId: 'viewer_r' });
+    await viewer.next('room-joined');
+    await host.next('viewer-joined');
+
+    viewer.transport.close();
+    assert.deepEqual(await viewer.closed, { code: 1000, reason: 'closed' });
+    assert.throws(() => viewer.send({ type: 'ping' }), /not open/);
+    assert.equal((await host.next('viewer-left')).userId, 'viewer_r');
+
+    // SignalingService makes a fresh transport and rejoins with the identity it kept
+    const again = await open({ token: viewer.token });
+    assert.equal(again.token, viewer.token);
+    again.send({ type: 'join-room', roomId: 'mem-rejoin', userId: 'viewer_r' });
+    await again.next('room-joined');
+    assert.equal((await host.next('viewer-joined')).userId, 'viewer_r');
+  });
+});
+
+describe('BroadcastChannel transport', () => {
+  const channelName = 'test-signaling';
+  const lockRequests: string[] = [];
+  // Every channel opened here, the hub tab's included, so none keeps the process alive
+  const channels: BroadcastChannel[] = [];
+  const NativeBroadcastChannel = globalThis.BroadcastChannel;
+
+  before(() => {
+    globalThis.BroadcastChannel = class extends NativeBroadcastChannel {
+      constructor(name: string) {
+        super(name);
+        channels.push(this);
+      }
+    };
+    // This process plays the tab that wins the hub lock, and keeps it
+    Object.defineProperty(globalThis, 'navigator', {
+      configurable: true,
+      value: {
+        locks: {
+          request: async (name: string, callback: () => Promise<unknown>) => {
+            lockRequests.push(name);
+            return callback();
+          },
+        },
+      },
+    });
+    Object.defineProperty(globalThis, 'window', { configurable: true, value: new EventTarget() });
+    mock.method(console, 'info', () => {});
+  });
+
+  after(() => {
+    channels.forEach((channel) => channel.close());
+    globalThis.BroadcastChannel = NativeBroadcastChannel;
+    mock.restoreAll();
+  });
+
+  const open = (options?: { token?: string }) =>
+    TransportClient.open(new BroadcastChannelTransport(channelName), options);
+
+  it('connects through the hub tab and delivers its messages', async () => {
+    const host = await open();
+    host.send({ type: 'create-room', roomId: 'bc-room', userId: 'host_b' });
+    assert.equal((await host.next('room-joined')).role, 'host');
+
+    const viewer = await open();
+    viewer.send({ type: 'join-room', roomId: 'bc-room', userId: 'viewer_b' });
+    await viewer.next('room-joined');
+    assert.equal((await host.next('viewer-joined')).userId, 'viewer_b');
+    // One hub per channel, however many transports
+    assert.deepEqual(lockRequests, [`${channelName}:hub`]);
+  });
+
+  it('tells the hub when a transport closes', async () => {
+    const host = await open();
+    host.send({ type: 'create-room', roomId: 'bc-leave', userId: 'host_l' });
+    await host.next('room-joined');
+    const viewer = await open();
+    viewer.send({ type: 'join-room', roomId: 'bc-leave', userId: 'viewer_l' });
+    await viewer.next('room-joined');
+
+    viewer.transport.close();
+    assert.equal((await host.next('viewer-left')).userId, 'viewer_l');
+  });
+
+  it('closes open transports when another hub takes over', async () => {
+    const client = await open();
+    const otherTab = new BroadcastChannel(channelName);
+    otherTab.postMessage({ kind: 'hub-ready', hubId: 'another-hub' });
+
+    assert.deepEqual(await client.closed, { code: HUB_RESTART_CLOSE_CODE, reason: 'hub-restarted' });
+  });
+});
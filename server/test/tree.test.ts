@@ -0,0 +1,97 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { capacityFromUplink, HOST_MAX_CHILDREN, RelayTree } from '../../shared/tree.ts';
+import { type TestClient, useTestServer } from './helpers.ts';
+
+describe('RelayTree', () => {
+  it('fills the host first, then relays with spare uplink', () => {
+    const tree = new RelayTree('host');
+    for (let i = 1; i <= HOST_MAX_CHILDREN; i++) tree.add(`v${i}`);
+    assert.deepEqual(tree.assignment('host')?.children, ['v1', 'v2', 'v3', 'v4']);
+
+    // v2 can relay to two viewers; the next joiners go below it instead of the host
+    assert.equal(capacityFromUplink(6500), 2);
+    tree.setUplink('v2', 6500);
+    tree.add('v5');
+    tree.add('v6');
+    assert.equal(tree.assignment('v5')?.parentId, 'v2');
+    assert.equal(tree.assignment('v6')?.parentId, 'v2');
+
+    // Nobody has room left: the host takes the viewer directly rather than leaving it out
+    tree.add('v7');
+    assert.equal(tree.assignment('v7')?.parentId, 'host');
+  });
+
+  it('re-places the children of a relay that leaves and reports who changed', () => {
+    const tree = new RelayTree('host', 1);
+    tree.add('relay');
+    tree.setUplink('relay', 10000);
+    tree.add('a');
+    tree.add('b');
+    tree.setUplink('a', 3200);
+    tree.add('c');
+    tree.add('d');
+    assert.equal(tree.assignment('c')?.parentId, 'relay');
+    assert.equal(tree.assignment('d')?.parentId, 'a');
+
+    const changed = tree.remove('relay');
+    // a keeps its subtree and takes the host's slot; b and c end up wherever there is room
+    assert.equal(tree.assignment('a')?.parentId, 'host');
+    assert.equal(tree.assignment('d')?.parentId, 'a');
+    assert.notEqual(tree.assignment('b')?.parentId, 'relay');
+    assert.notEqual(tree.assignment('c')?.parentId, 'relay');
+    assert.ok(changed.includes('host'));
+    assert.ok(changed.includes('a'));
+    assert.ok(!changed.includes('relay'));
+  });
+
+  it('moves the latest children away when a relay loses capacity', () => {
+    const tree = new RelayTree('host', 1);
+    tree.add('relay');
+    tree.setUplink('relay', 10000);
+    tree.add('a');
+    tree.add('b');
+    tree.setUplink('relay', 3200);
+    assert.deepEqual(tree.assignment('relay')?.children, ['a']);
+    assert.equal(tree.assignment('b')?.parentId, 'host');
+  });
+});
+
+describe('tree rooms', () => {
+  const { connect } = useTestServer();
+
+  it('assigns parents from reported bandwidth and repairs the tree', async () => {
+    const host = await connect();
+    host.send({ type: 'create-room', roomId: 'tree-room', userId: 'host_1', mode: 'tree' });
+    const joined = await host.next('room-joined');
+    assert.equal(joined.mode, 'tree');
+    assert.deepEqual((await host.next('relay-assignment')).children, []);
+
+    const viewers: TestClient[] = [];
+    for (let i = 1; i <= HOST_MAX_CHILDREN; i++) {
+      const viewer = await connect();
+      viewer.send({ type: 'join-room', roomId: 'tree-room', userId: `viewer_${i}` });
+      const assignment = await viewer.next('relay-assignment');
+      assert.equal(assignment.parentId, 'host_1');
+      viewers.push(viewer);
+    }
+
+    viewers[0].send({ type: 'relay-capacity', roomId: 'tree-room', uplinkKbps: 4000 });
+    await viewers[0].expectNone('error');
+
+    const late = await connect();
+    late.send({ type: 'join-room', roomId: 'tree-room', userId: 'viewer_5' });
+    assert.equal((await late.next('relay-assignment')).parentId, 'viewer_1');
+    assert.deepEqual((await viewers[0].next('relay-assignment')).children, ['viewer_5']);
+
+    let topology = await host.next('tree-topology');
+    while ((topology.nodes as { userId: string }[]).length < 6) {
+      topology = await host.next('tree-topology');
+    }
+
+    // The relay leaves: its child is handed back to the host
+    viewers[0].close();
+    await host.next('viewer-left');
+    assert.equal((await late.next('relay-assignment')).parentId, 'host_1');
+  });
+});
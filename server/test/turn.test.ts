@@ -0,0 +1,96 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  createIceConfigProvider,
+  createTurnCredentials,
+  iceConfigOptionsFromEnv,
+  verifyTurnCredentials,
+} from '../src/turn.ts';
+import { useTestServer } from './helpers.ts';
+
+const NOW = 1_700_000_000_000;
+
+describe('TURN REST API credentials', () => {
+  it('matches the coturn use-auth-secret scheme', () => {
+    const creds = createTurnCredentials('north-pole', 'host_1', 3600, NOW);
+    assert.equal(creds.username, '1700003600:host_1');
+    assert.equal(creds.expiresAt, 1_700_003_600);
+    // base64(HMAC-SHA1("north-pole", "1700003600:host_1")), computed independently
+    assert.equal(creds.credential, '+ZH07pObZRNmrtaDroIOAQkBykM=');
+  });
+
+  it('verifies fresh credentials and rejects expired or forged ones', () => {
+    const { username, credential } = createTurnCredentials('secret', 'viewer_1', 60, NOW);
+
+    assert.equal(verifyTurnCredentials('secret', username, credential, NOW), true);
+    assert.equal(verifyTurnCredentials('secret', username, credential, NOW + 61_000), false);
+    assert.equal(verifyTurnCredentials('other-secret', username, credential, NOW), false);
+    assert.equal(verifyTurnCredentials('secret', `${username}x`, credential, NOW), false);
+  });
+});
+
+describe('ICE config provider', () => {
+  it('falls back to public STUN when nothing is configured', () => {
+    const provider = createIceConfigProvider(iceConfigOptionsFromEnv({}));
+    const config = provider('host_1', NOW);
+
+    assert.equal(config.iceServers.length, 1);
+    assert.ok((config.iceServers[0].urls as string[]).every((url) => url.startsWith('stun:')));
+    assert.equal(config.iceTransportPolicy, 'all');
+    assert.equal(config.expiresAt, undefined);
+  });
+
+  it('adds TURN servers with per-user credentials', () => {
+    const provider = createIceConfigProvider(iceConfigOptionsFromEnv({
+      STUN_URLS: 'stun:turn.example.com:3478',
+      TURN_URLS: 'turn:turn.example.com:3478?transport=udp, turns:turn.example.com:5349',
+      TURN_SECRET: 'north-pole',
+      TURN_TTL: '3600',
+    }));
+    const config = provider('host_1', NOW);
+    const turn = config.iceServers[1];
+
+    assert.deepEqual(turn.urls, ['turn:turn.example.com:3478?transport=udp', 'turns:turn.example.com:5349']);
+    assert.equal(turn.username, '1700003600:host_1');
+    assert.equal(turn.credential, '+ZH07pObZRNmrtaDroIOAQkBykM=');
+    assert.equal(config.expiresAt, 1_700_003_600);
+  });
+
+  it('forces relay only when TURN is available', () => {
+    assert.throws(() => createIceConfigProvider(iceConfigOptionsFromEnv({ ICE_TRANSPORT_POLICY: 'relay' })));
+    assert.throws(() => createIceConfigProvider(iceConfigOptionsFromEnv({ TURN_URLS: 'turn:x' })));
+
+    const provider = createIceConfigProvider(iceConfigOptionsFromEnv({
+      TURN_URLS: 'turn:turn.example.com',
+      TURN_SECRET: 's',
+      ICE_TRANSPORT_POLICY: 'relay',
+    }));
+    assert.equal(provider('u', NOW).iceTransportPolicy, 'relay');
+  });
+});
+
+describe('ice-config message', () => {
+  const provider = createIceConfigProvider(iceConfigOptionsFromEnv({
+    TURN_URLS: 'turn:turn.example.com:3478',
+    TURN_SECRET: 'north-pole',
+  }));
+  const { connect } = useTestServer({ iceConfig: (userId) => provider(userId) });
+
+  it('hands each peer its own TURN credentials on create and join', async () => {
+    const host = await connect();
+    const viewer = await connect();
+
+    host.send({ type: 'create-room', roomId: 'room-ice', userId: 'host_ice' });
+    const hostConfig = await host.next('ice-config');
+
+    viewer.send({ type: 'join-room', roomId: 'room-ice', userId: 'viewer_ice' });
+    const viewerConfig = await viewer.next('ice-config');
+
+    const turnFor = (config: typeof hostConfig) =>
+      (config.iceServers as { username?: string; credential?: string }[]).find((s) => s.username)!;
+
+    assert.match(turnFor(hostConfig).username!, /:host_ice$/);
+    assert.match(turnFor(viewerConfig).username!, /:viewer_ice$/);
+    assert.ok(verifyTurnCredentials('north-pole', turnFor(viewerConfig).username!, turnFor(viewerConfig).credential!));
+  });
+});
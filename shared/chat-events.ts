@@ -0,0 +1,41 @@
+// How chat-events change a message: the hub applies them to its history, clients to what they show
+import { CHAT_EDIT_WINDOW_MS, type ChatEvent, type ChatReaction } from './protocol';
+
+// The parts of a chat message that events change, common to the server's and the client's shape
+export interface ChatMessageState {
+  text: string;
+  reactions?: Partial<Record<ChatReaction, string[]>>;
+  editedAt?: number;
+  deleted?: boolean;
+}
+
+// `event` from `userId` at `at`; a deleted message stays deleted
+export function applyChatEvent<M extends ChatMessageState>(message: M, event: ChatEvent, userId: string, at: number): M {
+  if (message.deleted) return message;
+
+  switch (event.kind) {
+    case 'react': {
+      const others = (message.reactions?.[event.emoji] ?? []).filter((id) => id !== userId);
+      const reactions = { ...message.reactions, [event.emoji]: event.on ? [...others, userId] : others };
+      if (reactions[event.emoji]?.length === 0) delete reactions[event.emoji];
+      return { ...message, reactions };
+    }
+    case 'edit':
+      return { ...message, text: event.text, editedAt: at };
+    case 'delete':
+      // Nothing of what was said is kept
+      return { ...message, text: '', reactions: undefined, editedAt: undefined, deleted: true };
+  }
+}
+
+// Whether `userId` may edit or delete a message `authorId` sent at `sentAt`
+export function mayChangeChatMessage(
+  kind: 'edit' | 'delete',
+  message: { authorId: string; sentAt: number },
+  userId: string,
+  isHost: boolean,
+  now: number
+): boolean {
+  if (kind === 'delete' && isHost) return true;
+  return message.authorId === userId && now - message.sentAt <= CHAT_EDIT_WINDOW_MS;
+}
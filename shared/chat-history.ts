@@ -0,0 +1,82 @@
+// Recent chat per room, so members who join late or reconnect can catch up
+import type { ChatBroadcastMessage } from './protocol';
+
+// Messages oldest first; cursor is passed back as `before` for the next older page, and is null
+// once the page reaches the start of the history
+export interface ChatHistoryPage {
+  messages: ChatBroadcastMessage[];
+  cursor: number | null;
+}
+
+// Where the hub keeps chat (the Node server can back it with SQLite, see server/src/chat-history.ts)
+export interface ChatHistoryStore {
+  append(roomId: string, message: ChatBroadcastMessage): void;
+  // Up to `limit` of the newest messages older than `before`, or of the newest overall
+  page(roomId: string, limit: number, before?: number): ChatHistoryPage;
+  // The kept message `fromId` sent with `id`
+  find(roomId: string, fromId: string, id: string): ChatBroadcastMessage | undefined;
+  // Swap a kept message for a changed version of it (same fromId and id)
+  replace(roomId: string, message: ChatBroadcastMessage): void;
+  // Forget a room's history; the hub calls this when the room closes, so a later room with the
+  // same code starts empty
+  clear(roomId: string): void;
+  close?(): void;
+}
+
+interface RoomHistory {
+  nextSeq: number;
+  entries: { seq: number; message: ChatBroadcastMessage }[];
+}
+
+// Keeps the last `maxPerRoom` messages of the `maxRooms` rooms chatted in most recently
+export class MemoryChatHistory implements ChatHistoryStore {
+  private rooms = new Map<string, RoomHistory>();
+
+  constructor(
+    private readonly maxPerRoom = 200,
+    private readonly maxRooms = 1000
+  ) {}
+
+  append(roomId: string, message: ChatBroadcastMessage) {
+    const history = this.rooms.get(roomId) ?? { nextSeq: 1, entries: [] };
+    history.entries.push({ seq: history.nextSeq++, message });
+    if (history.entries.length > this.maxPerRoom) {
+      history.entries.splice(0, history.entries.length - this.maxPerRoom);
+    }
+
+    // Map order doubles as recency: the first room is the one to forget
+    this.rooms.delete(roomId);
+    this.rooms.set(roomId, history);
+    if (this.rooms.size > this.maxRooms) {
+      const [oldest] = this.rooms.keys();
+      this.rooms.delete(oldest);
+    }
+  }
+
+  page(roomId: string, limit: number, before?: number): ChatHistoryPage {
+    const entries = this.rooms.get(roomId)?.entries ?? [];
+    const older = before === undefined ? entries : entries.filter((entry) => entry.seq < before);
+    const page = older.slice(Math.max(0, older.length - limit));
+    return {
+      messages: page.map((entry) => entry.message),
+      cursor: page.length > 0 && page.length < older.length ? page[0].seq : null,
+    };
+  }
+
+  find(roomId: string, fromId: string, id: string): ChatBroadcastMessage | undefined {
+    return this.entry(roomId, fromId, id)?.message;
+  }
+
+  replace(roomId: string, message: ChatBroadcastMessage) {
+    const entry = this.entry(roomId, message.fromId, message.id);
+    if (entry) entry.message = message;
+  }
+
+  clear(roomId: string) {
+    this.rooms.delete(roomId);
+  }
+
+  private entry(roomId: string, fromId: string, id: string) {
+    return this.rooms.get(roomId)?.entries.find(({ message }) => message.fromId === fromId && message.id === id);
+  }
+}
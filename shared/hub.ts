@@ -0,0 +1,816 @@
+// Transport-agnostic signaling hub: room bookkeeping, relaying and chat fan-out.
+// The Node server runs it behind WebSockets; the browser runs it for the local transports.
+import {
+  MAX_DISPLAY_NAME_LENGTH,
+  PROTOCOL_VERSION,
+  SFU_PEER_ID,
+  parseClientMessage,
+  type AdmissionMessage,
+  type ChatBroadcastMessage,
+  type ChatHistoryRequestMessage,
+  type SendChatEventMessage,
+  type CreateRoomMessage,
+  type ErrorCode,
+  type IceConfig,
+  type JoinRoomMessage,
+  type LatencyReportMessage,
+  type ModerateMessage,
+  type Participant,
+  type PlaybackMessage,
+  type PlaybackState,
+  type RelayCapacityMessage,
+  type RelayMessage,
+  type Role,
+  type RoomAccessMessage,
+  type RoomMode,
+  type SendChatMessage,
+  type ServerMessage,
+} from './protocol';
+import { applyChatEvent, mayChangeChatMessage } from './chat-events';
+import { MemoryChatHistory, type ChatHistoryStore } from './chat-history';
+import { IdentityTokens } from './identity';
+import { RoomRegistry, type Member, type Room, type RoomAccess } from './rooms';
+import { RelayTree } from './tree';
+
+// Close code used when the client speaks an incompatible protocol version
+export const VERSION_MISMATCH_CLOSE_CODE = 4000;
+
+export type Logger = Pick<Console, 'info' | 'warn' | 'error'>;
+
+// Chat messages per chat-history message
+export const CHAT_HISTORY_PAGE_SIZE = 50;
+
+// How the hub reaches one connected client
+export interface HubPeer {
+  send(message: ServerMessage): void;
+  close(code: number, reason: string): void;
+}
+
+// A selective forwarding unit the hub hands SFU rooms to (the Node server's lives in server/src/sfu.ts)
+export interface SfuBackend {
+  // Called once by the hub; the SFU sends its offers, answers and candidates to members through it
+  attach(deliver: (roomId: string, userId: string, message: ServerMessage) => void): void;
+  addViewer(roomId: string, userId: string): void;
+  removePeer(roomId: string, userId: string, role: Role): void;
+  // An offer, answer, candidate or layer request a member addressed to SFU_PEER_ID
+  handleSignal(roomId: string, userId: string, role: Role, message: RelayMessage): void;
+  close?(): void;
+}
+
+// Trimmed display name, or undefined when there is none
+function displayName(name: string | undefined): string | undefined {
+  return name?.trim().slice(0, MAX_DISPLAY_NAME_LENGTH) || undefined;
+}
+
+function toParticipant({ userId, role, name, client }: Member<HubConnection>, room: Room<HubConnection>): Participant {
+  return { userId, role, name, muted: room.muted.has(client.identity) || undefined };
+}
+
+export interface SignalingHubOptions {
+  logger?: Logger;
+  // ICE servers handed to each peer as it enters a room; omitted means clients keep their defaults
+  iceConfig?: (userId: string) => IceConfig;
+  // Without an SFU every room is a mesh
+  sfu?: SfuBackend;
+  // Mode for rooms whose host does not ask for one; defaults to 'sfu' when an SFU is available
+  defaultRoomMode?: RoomMode;
+  // Defaults to a MemoryChatHistory
+  chatHistory?: ChatHistoryStore;
+  // Identity tokens remembered at once (see identity.ts); defaults to 100_000
+  maxIdentities?: number;
+}
+
+// One client connection and the room membership it currently holds
+export class HubConnection {
+  userId: string | null = null;
+  roomId: string | null = null;
+  role: Role | null = null;
+  // Display name from the last create-room or join-room
+  name: string | undefined = undefined;
+  version: number | null = null;
+  // Identity token from the handshake (see identity.ts); set before any other message is handled
+  identity = '';
+  // Knock rooms: the room this connection is waiting to be let into
+  knock: { roomId: string; userId: string } | null = null;
+
+  constructor(
+    private readonly hub: SignalingHub,
+    readonly peer: HubPeer
+  ) {}
+
+  // Feed one raw frame received from the client
+  receive(raw: string) {
+    this.hub.handleMessage(this, raw);
+  }
+
+  // The underlying transport went away
+  disconnect() {
+    this.hub.leaveCurrentRoom(this);
+  }
+
+  send(message: ServerMessage) {
+    this.peer.send(message);
+  }
+
+  sendError(message: string, code: ErrorCode) {
+    this.send({ type: 'error', code, message });
+  }
+}
+
+export class SignalingHub {
+  readonly rooms = new RoomRegistry<HubConnection>();
+  private logger: Logger;
+  private iceConfig?: (userId: string) => IceConfig;
+  private sfu?: SfuBackend;
+  private defaultRoomMode: RoomMode;
+  // Relay placement for each 'tree' room
+  private trees = new Map<string, RelayTree>();
+  // Latest watch-party state per room and when it arrived, replayed to viewers who join later
+  private playback = new Map<string, { state: PlaybackState; receivedAt: number }>();
+  // Knock rooms: viewers waiting for the host, by room and userId
+  private knocks = new Map<string, Map<string, HubConnection>>();
+  // Numbers chat messages from clients that do not give them an id; the start time keeps the ids
+  // unique across restarts, since history may outlive the process
+  private chatSeq = 0;
+  private readonly chatIdPrefix = `srv_${Date.now().toString(36)}`;
+  private chatHistory: ChatHistoryStore;
+  private identities: IdentityTokens;
+
+  constructor(options: SignalingHubOptions = {}) {
+    this.logger = options.logger ?? console;
+    this.chatHistory = options.chatHistory ?? new MemoryChatHistory();
+    this.identities = new IdentityTokens(options.maxIdentities, (token) => this.identityInUse(token));
+    this.iceConfig = options.iceConfig;
+    this.sfu = options.sfu;
+    this.defaultRoomMode = options.defaultRoomMode ?? (options.sfu ? 'sfu' : 'mesh');
+    this.sfu?.attach((roomId, userId, message) => {
+      this.rooms.getMember(roomId, userId)?.client.send(message);
+    });
+  }
+
+  connect(peer: HubPeer): HubConnection {
+    return new HubConnection(this, peer);
+  }
+
+  handleMessage(conn: HubConnection, raw: string) {
+    const parsed = parseClientMessage(raw);
+    if (parsed.ok === false) {
+      conn.sendError(parsed.error, parsed.code);
+      return;
+    }
+
+    const message = parsed.message;
+    if (message.type === 'hello') {
+      this.handleHello(conn, message.version, message.token);
+      return;
+    }
+    if (conn.version === null) {
+      conn.sendError(`Send hello with protocol version ${PROTOCOL_VERSION} first`, 'handshake-required');
+      return;
+    }
+
+    switch (message.type) {
+      case 'create-room':
+        this.handleCreateRoom(conn, message);
+        return;
+      case 'join-room':
+        this.handleJoinRoom(conn, message);
+        return;
+      case 'room-access':
+        this.handleRoomAccess(conn, message);
+        return;
+      case 'admission':
+        this.handleAdmission(conn, message);
+        return;
+      case 'moderate':
+        this.handleModerate(conn, message);
+        return;
+      case 'leave-room':
+        this.leaveCurrentRoom(conn);
+        return;
+      case 'offer':
+      case 'answer':
+      case 'ice-candidate':
+      case 'layer-request':
+        this.handleRelay(conn, message);
+        return;
+      case 'chat-message':
+        this.handleChatMessage(conn, message);
+        return;
+      case 'chat-event':
+        this.handleChatEvent(conn, message);
+        return;
+      case 'chat-history':
+        this.handleChatHistory(conn, message);
+        return;
+      case 'playback':
+        this.handlePlayback(conn, message);
+        return;
+      case 'relay-capacity':
+        this.handleRelayCapacity(conn, message);
+        return;
+      case 'latency-report':
+        this.handleLatencyReport(conn, message);
+        return;
+      case 'ping':
+        // Application-level keepalive; a timestamped ping also gets our clock back
+        if (message.ts !== undefined) conn.send({ type: 'pong', ts: message.ts, serverTime: Date.now() });
+        return;
+    }
+  }
+
+  leaveCurrentRoom(conn: HubConnection) {
+    this.withdrawKnock(conn);
+    const { roomId, userId, role } = conn;
+    conn.roomId = null;
+    conn.userId = null;
+    conn.role = null;
+    if (!roomId || !userId) return;
+
+    // A newer connection may have taken over this userId (e.g. client reconnect)
+    const member = this.rooms.getMember(roomId, userId);
+    if (!member || member.client !== conn) return;
+
+    const mode = this.rooms.get(roomId)?.mode;
+    this.rooms.leaveRoom(roomId, userId);
+    if (!this.rooms.get(roomId)) {
+      this.playback.delete(roomId);
+      try {
+        this.chatHistory.clear(roomId);
+      } catch (err) {
+        this.logger.error('[signaling] failed to clear chat history:', err);
+      }
+      // Nobody is left to let the waiting viewers in
+      this.knocks.get(roomId)?.forEach((knocker) => {
+        knocker.knock = null;
+        knocker.sendError(`Room ${roomId} closed`, 'room-not-found');
+      });
+      this.knocks.delete(roomId);
+    }
+    this.logger.info(`[signaling] ${role} ${userId} left room ${roomId}`);
+    if (mode === 'sfu' && role) {
+      this.sfu?.removePeer(roomId, userId, role);
+    }
+    if (mode === 'tree') {
+      if (!this.rooms.get(roomId)) {
+        this.trees.delete(roomId);
+      } else if (role === 'viewer') {
+        // The leaver's children are re-placed; their own subtrees move with them
+        this.syncTree(roomId, this.trees.get(roomId)?.remove(userId) ?? []);
+      }
+    }
+
+    if (role === 'host') {
+      this.rooms.getViewers(roomId).forEach((viewer) => {
+        viewer.client.send({ type: 'host-left', roomId, userId });
+      });
+    } else {
+      this.rooms.getHost(roomId)?.client.send({ type: 'viewer-left', roomId, userId });
+    }
+    this.rooms.get(roomId)?.members.forEach((member) => {
+      member.client.send({ type: 'participant-left', roomId, userId });
+    });
+  }
+
+  private handleHello(conn: HubConnection, version: number, token?: string) {
+    if (version !== PROTOCOL_VERSION) {
+      this.logger.warn(`[signaling] rejected client speaking protocol v${version}`);
+      conn.send({
+        type: 'error',
+        code: 'version-mismatch',
+        message: `Protocol version ${version} is not supported (server speaks v${PROTOCOL_VERSION})`,
+        expectedVersion: PROTOCOL_VERSION,
+      });
+      conn.peer.close(VERSION_MISMATCH_CLOSE_CODE, 'version-mismatch');
+      return;
+    }
+
+    conn.version = version;
+    // A connection keeps the identity it started with
+    conn.identity ||= this.identities.resolve(token);
+    conn.send({ type: 'welcome', version: PROTOCOL_VERSION, token: conn.identity });
+  }
+
+  // Whether a room or knock queue still refers to this identity, so the hub must keep honouring it
+  private identityInUse(token: string): boolean {
+    for (const room of this.rooms.values()) {
+      if (room.hostIdentity === token || room.admitted.has(token) || room.banned.has(token) || room.muted.has(token)) {
+        return true;
+      }
+      for (const member of room.members.values()) {
+        if (member.client.identity === token) return true;
+      }
+    }
+    for (const queue of this.knocks.values()) {
+      for (const knocker of queue.values()) {
+        if (knocker.identity === token) return true;
+      }
+    }
+    return false;
+  }
+
+  // Whether a different client holds this userId in the room, as a member or in the knock queue.
+  // Only the same identity may take its place (a reconnect); userIds are public, so anyone else
+  // could otherwise push a member out and speak as it.
+  private heldByOther(roomId: string, userId: string, conn: HubConnection): boolean {
+    const holders = [this.rooms.getMember(roomId, userId)?.client, this.knocks.get(roomId)?.get(userId)];
+    return holders.some((holder) => holder && holder !== conn && holder.identity !== conn.identity);
+  }
+
+  // Displace a stale connection that still holds this userId in the room
+  private evictPrevious(roomId: string, userId: string, conn: HubConnection) {
+    const previous = this.rooms.getMember(roomId, userId);
+    if (previous && previous.client !== conn) {
+      previous.client.roomId = null;
+      previous.client.userId = null;
+      previous.client.role = null;
+    }
+  }
+
+  private handleCreateRoom(conn: HubConnection, message: CreateRoomMessage) {
+    const { roomId, userId } = message;
+    // Only the room's own host may take it over again (a reconnect); a new room code that is
+    // already live is a collision, or someone guessing
+    const existing = this.rooms.get(roomId);
+    if (existing && (existing.hostIdentity !== conn.identity || (existing.hostId && existing.hostId !== userId))) {
+      conn.sendError(`Room ${roomId} already exists`, 'room-exists');
+      return;
+    }
+    if (this.heldByOther(roomId, userId, conn)) {
+      conn.sendError(`${userId} is already in room ${roomId}`, 'forbidden');
+      return;
+    }
+    if (conn.roomId && (conn.roomId !== roomId || conn.userId !== userId)) {
+      this.leaveCurrentRoom(conn);
+    }
+    this.withdrawKnock(conn);
+
+    this.evictPrevious(roomId, userId, conn);
+    const wanted = message.mode ?? this.defaultRoomMode;
+    const access: RoomAccess = { passcode: message.passcode || null, admission: message.admission ?? 'open' };
+    conn.name = displayName(message.name);
+    const room = this.rooms.createRoom(
+      roomId,
+      userId,
+      conn,
+      wanted === 'sfu' && !this.sfu ? 'mesh' : wanted,
+      access,
+      conn.name
+    );
+    room.hostIdentity = conn.identity;
+    conn.roomId = roomId;
+    conn.userId = userId;
+    conn.role = 'host';
+    this.logger.info(`[signaling] host ${userId} created ${room.mode} room ${roomId}`);
+
+    const viewers = this.rooms.getViewers(roomId);
+    conn.send({
+      type: 'room-joined',
+      roomId,
+      userId,
+      role: 'host',
+      hostId: userId,
+      viewers: viewers.map((v) => v.userId),
+      mode: room.mode,
+    });
+    this.sendIceConfig(conn, userId);
+    this.announcePresence(room, userId);
+    this.sendChatHistory(conn, roomId);
+
+    // Viewers who were already waiting (e.g. after a host reconnect) are announced again
+    viewers.forEach((viewer) => {
+      conn.send({ type: 'viewer-joined', roomId, userId: viewer.userId });
+    });
+    this.reviewKnocks(room);
+
+    if (room.mode === 'tree') {
+      let tree = this.trees.get(roomId);
+      if (!tree || tree.rootId !== userId) {
+        // A different host takes over: rebuild the tree under them
+        tree = new RelayTree(userId);
+        this.trees.set(roomId, tree);
+        viewers.forEach((viewer) => tree!.add(viewer.userId));
+        this.syncTree(roomId, [userId, ...viewers.map((v) => v.userId)]);
+      } else {
+        this.syncTree(roomId, [userId]);
+      }
+    }
+  }
+
+  private handleJoinRoom(conn: HubConnection, message: JoinRoomMessage) {
+    const { roomId, userId } = message;
+    const room = this.rooms.get(roomId);
+    if (!room) {
+      conn.sendError(`Room ${roomId} does not exist`, 'room-not-found');
+      return;
+    }
+    if (room.banned.has(conn.identity)) {
+      conn.sendError('The host has banned you from this room', 'banned');
+      return;
+    }
+    const { passcode } = room.access;
+    if (passcode && message.passcode !== passcode) {
+      if (message.passcode) {
+        conn.sendError('Wrong passcode', 'passcode-incorrect');
+      } else {
+        conn.sendError(`Room ${roomId} needs a passcode`, 'passcode-required');
+      }
+      return;
+    }
+    if (this.heldByOther(roomId, userId, conn)) {
+      conn.sendError(`${userId} is already in room ${roomId}`, 'forbidden');
+      return;
+    }
+
+    if (conn.roomId && (conn.roomId !== roomId || conn.userId !== userId)) {
+      this.leaveCurrentRoom(conn);
+    }
+    this.withdrawKnock(conn);
+    conn.name = displayName(message.name);
+
+    // Members and viewers let in before (e.g. reconnecting) do not queue again
+    if (room.access.admission === 'knock' && !room.admitted.has(conn.identity) && !room.members.has(userId)) {
+      this.addKnock(conn, roomId, userId);
+      return;
+    }
+    this.admitViewer(conn, room, userId);
+  }
+
+  // Make the connection a viewer of the room and introduce it to the host (or SFU, or tree)
+  private admitViewer(conn: HubConnection, room: Room<HubConnection>, userId: string) {
+    const roomId = room.id;
+    this.evictPrevious(roomId, userId, conn);
+    this.rooms.joinRoom(roomId, userId, conn, conn.name);
+    conn.roomId = roomId;
+    conn.userId = userId;
+    conn.role = 'viewer';
+    this.logger.info(`[signaling] viewer ${userId} joined room ${roomId}`);
+
+    const host = this.rooms.getHost(roomId);
+    conn.send({
+      type: 'room-joined',
+      roomId,
+      userId,
+      role: 'viewer',
+      hostId: host?.userId ?? null,
+      mode: room.mode,
+    });
+    if (room.muted.has(conn.identity)) {
+      conn.send({ type: 'chat-muted', roomId, muted: true });
+    }
+    // Sent before the host hears about us, so it arrives ahead of the host's offer
+    this.sendIceConfig(conn, userId);
+    this.announcePresence(room, userId);
+    this.sendChatHistory(conn, roomId);
+    host?.client.send({ type: 'viewer-joined', roomId, userId });
+    if (room.mode === 'sfu') {
+      // The SFU, not the host, sends this viewer its offer
+      this.sfu?.addViewer(roomId, userId);
+    }
+    const playback = this.playback.get(roomId);
+    if (playback) {
+      conn.send({ type: 'playback', roomId, fromId: room.hostId ?? '', state: this.currentPlayback(playback) });
+    }
+    const tree = this.trees.get(roomId);
+    if (room.mode === 'tree' && tree) {
+      // A reconnecting viewer keeps its place but needs its assignment again
+      this.syncTree(roomId, [userId, ...tree.add(userId)]);
+    }
+  }
+
+  private addKnock(conn: HubConnection, roomId: string, userId: string) {
+    const waiting = this.knocks.get(roomId) ?? new Map<string, HubConnection>();
+    // A knocker that reconnected replaces its stale connection in the queue
+    const previous = waiting.get(userId);
+    if (previous && previous !== conn) previous.knock = null;
+    waiting.set(userId, conn);
+    this.knocks.set(roomId, waiting);
+    conn.knock = { roomId, userId };
+    this.logger.info(`[signaling] viewer ${userId} knocked on room ${roomId}`);
+
+    conn.send({ type: 'admission-pending', roomId });
+    this.rooms.getHost(roomId)?.client.send({ type: 'knock', roomId, userId, name: conn.name });
+  }
+
+  // The newcomer gets the whole roster; everyone else hears that it arrived
+  private announcePresence(room: Room<HubConnection>, userId: string) {
+    const member = room.members.get(userId);
+    if (!member) return;
+    const participants = [...room.members.values()].map((m) => toParticipant(m, room));
+    member.client.send({ type: 'roster', roomId: room.id, participants });
+    room.members.forEach((other) => {
+      if (other.userId === userId) return;
+      other.client.send({ type: 'participant-joined', roomId: room.id, participant: toParticipant(member, room) });
+    });
+  }
+
+  // Take a knocker out of the queue; returns its connection if it was waiting
+  private takeKnock(roomId: string, userId: string): HubConnection | undefined {
+    const waiting = this.knocks.get(roomId);
+    const knocker = waiting?.get(userId);
+    if (!waiting || !knocker) return undefined;
+    waiting.delete(userId);
+    if (waiting.size === 0) this.knocks.delete(roomId);
+    knocker.knock = null;
+    return knocker;
+  }
+
+  private withdrawKnock(conn: HubConnection) {
+    const { knock } = conn;
+    if (!knock || this.knocks.get(knock.roomId)?.get(knock.userId) !== conn) {
+      conn.knock = null;
+      return;
+    }
+    this.takeKnock(knock.roomId, knock.userId);
+    this.rooms.getHost(knock.roomId)?.client.send({ type: 'knock-withdrawn', ...knock });
+  }
+
+  // After the host (re)joins or changes access: re-announce waiting viewers, or let them all in
+  // if the room no longer asks for approval
+  private reviewKnocks(room: Room<HubConnection>) {
+    const waiting = [...(this.knocks.get(room.id)?.entries() ?? [])];
+    waiting.forEach(([userId, pending]) => {
+      if (room.access.admission === 'knock') {
+        this.rooms.getHost(room.id)?.client.send({ type: 'knock', roomId: room.id, userId, name: pending.name });
+        return;
+      }
+      const knocker = this.takeKnock(room.id, userId);
+      if (knocker) this.admitViewer(knocker, room, userId);
+    });
+  }
+
+  private handleRoomAccess(conn: HubConnection, message: RoomAccessMessage) {
+    const room = conn.roomId === message.roomId ? this.rooms.get(message.roomId) : undefined;
+    if (!room || !conn.userId) {
+      conn.sendError('Join the room before changing its access', 'not-in-room');
+      return;
+    }
+    if (conn.role !== 'host') {
+      conn.sendError('Only the host changes room access', 'forbidden');
+      return;
+    }
+    room.access = { passcode: message.passcode || null, admission: message.admission };
+    this.logger.info(`[signaling] room ${room.id} access: ${room.access.admission}, passcode ${room.access.passcode ? 'set' : 'off'}`);
+    this.reviewKnocks(room);
+  }
+
+  private handleAdmission(conn: HubConnection, message: AdmissionMessage) {
+    const room = conn.roomId === message.roomId ? this.rooms.get(message.roomId) : undefined;
+    if (!room || !conn.userId) {
+      conn.sendError('Join the room before admitting viewers', 'not-in-room');
+      return;
+    }
+    if (conn.role !== 'host') {
+      conn.sendError('Only the host admits viewers', 'forbidden');
+      return;
+    }
+    const knocker = this.takeKnock(room.id, message.userId);
+    if (!knocker) {
+      conn.sendError(`${message.userId} is not waiting to join`, 'peer-not-found');
+      return;
+    }
+
+    if (!message.admit) {
+      this.logger.info(`[signaling] host turned away ${message.userId} from room ${room.id}`);
+      knocker.sendError('The host declined your request to join', 'admission-denied');
+      return;
+    }
+    room.admitted.add(knocker.identity);
+    this.admitViewer(knocker, room, message.userId);
+  }
+
+  private handleModerate(conn: HubConnection, message: ModerateMessage) {
+    const room = conn.roomId === message.roomId ? this.rooms.get(message.roomId) : undefined;
+    if (!room || !conn.userId) {
+      conn.sendError('Join the room before moderating it', 'not-in-room');
+      return;
+    }
+    if (conn.role !== 'host') {
+      conn.sendError('Only the host moderates viewers', 'forbidden');
+      return;
+    }
+    const { userId, action } = message;
+    const target = room.members.get(userId);
+    if (!target || target.role !== 'viewer') {
+      conn.sendError(`Viewer ${userId} is not in room ${room.id}`, 'peer-not-found');
+      return;
+    }
+    this.logger.info(`[signaling] room ${room.id} moderation: ${action} ${userId}`);
+
+    const { identity } = target.client;
+    if (action === 'mute' || action === 'unmute') {
+      const muted = action === 'mute';
+      if (muted) {
+        room.muted.add(identity);
+      } else {
+        room.muted.delete(identity);
+      }
+      target.client.send({ type: 'chat-muted', roomId: room.id, muted });
+      // The roster carries mutes, so the host still knows them after a reload
+      const participant = toParticipant(target, room);
+      room.members.forEach((member) => {
+        member.client.send({ type: 'participant-updated', roomId: room.id, participant });
+      });
+      return;
+    }
+
+    const banned = action === 'ban';
+    if (banned) room.banned.add(identity);
+    // In a knock room a kicked viewer has to ask again if it comes back
+    room.admitted.delete(identity);
+    target.client.send({ type: 'removed', roomId: room.id, banned });
+    // Same as the viewer leaving: the host hears viewer-left, the SFU and tree let go of it
+    this.leaveCurrentRoom(target.client);
+  }
+
+  private handlePlayback(conn: HubConnection, message: PlaybackMessage) {
+    if (!conn.roomId || !conn.userId || conn.roomId !== message.roomId) {
+      conn.sendError('Join the room before controlling playback', 'not-in-room');
+      return;
+    }
+    if (conn.role !== 'host') {
+      conn.sendError('Only the host controls playback', 'forbidden');
+      return;
+    }
+
+    const { roomId, userId } = conn;
+    if (message.state.source) {
+      this.playback.set(roomId, { state: message.state, receivedAt: Date.now() });
+    } else {
+      this.playback.delete(roomId);
+    }
+    this.rooms.getViewers(roomId).forEach((viewer) => {
+      viewer.client.send({ type: 'playback', roomId, fromId: userId, state: message.state });
+    });
+  }
+
+  // The stored state with its position moved on by the time that has passed since it arrived
+  private currentPlayback({ state, receivedAt }: { state: PlaybackState; receivedAt: number }): PlaybackState {
+    if (!state.playing) return state;
+    return { ...state, position: state.position + ((Date.now() - receivedAt) / 1000) * state.rate };
+  }
+
+  private handleLatencyReport(conn: HubConnection, message: LatencyReportMessage) {
+    if (!conn.roomId || !conn.userId || conn.roomId !== message.roomId) {
+      conn.sendError('Join the room before reporting latency', 'not-in-room');
+      return;
+    }
+    if (conn.role !== 'viewer') {
+      conn.sendError('Only viewers report latency', 'forbidden');
+      return;
+    }
+    this.rooms.getHost(conn.roomId)?.client.send({
+      type: 'latency-report',
+      roomId: conn.roomId,
+      fromId: conn.userId,
+      latencyMs: message.latencyMs,
+    });
+  }
+
+  private handleRelayCapacity(conn: HubConnection, message: RelayCapacityMessage) {
+    if (!conn.roomId || !conn.userId || conn.roomId !== message.roomId) {
+      conn.sendError('Join the room before reporting relay capacity', 'not-in-room');
+      return;
+    }
+    const tree = this.trees.get(conn.roomId);
+    if (!tree) return;
+    this.syncTree(conn.roomId, tree.setUplink(conn.userId, message.uplinkKbps));
+  }
+
+  // Send new assignments to the members in `changed`, and the topology to the host
+  private syncTree(roomId: string, changed: string[]) {
+    const tree = this.trees.get(roomId);
+    if (!tree || changed.length === 0) return;
+
+    new Set(changed).forEach((userId) => {
+      const assignment = tree.assignment(userId);
+      if (!assignment) return;
+      this.rooms.getMember(roomId, userId)?.client.send({ type: 'relay-assignment', roomId, ...assignment });
+    });
+    this.rooms.getHost(roomId)?.client.send({ type: 'tree-topology', roomId, nodes: tree.topology() });
+  }
+
+  private sendIceConfig(conn: HubConnection, userId: string) {
+    if (!this.iceConfig) return;
+    try {
+      conn.send({ type: 'ice-config', ...this.iceConfig(userId) });
+    } catch (err) {
+      this.logger.error('[signaling] failed to build ICE config:', err);
+    }
+  }
+
+  private handleRelay(conn: HubConnection, message: RelayMessage) {
+    if (!conn.roomId || !conn.userId) {
+      conn.sendError('Join a room before sending signaling messages', 'not-in-room');
+      return;
+    }
+
+    if (message.targetId === SFU_PEER_ID && this.rooms.get(conn.roomId)?.mode === 'sfu') {
+      this.sfu?.handleSignal(conn.roomId, conn.userId, conn.role ?? 'viewer', message);
+      return;
+    }
+
+    const target = this.rooms.getMember(conn.roomId, message.targetId);
+    if (!target) {
+      conn.sendError(`Peer ${message.targetId} is not in room ${conn.roomId}`, 'peer-not-found');
+      return;
+    }
+
+    target.client.send({ ...message, roomId: conn.roomId, fromId: conn.userId } as ServerMessage);
+  }
+
+  private handleChatMessage(conn: HubConnection, message: SendChatMessage) {
+    if (!conn.roomId || !conn.userId) {
+      conn.sendError('Join a room before chatting', 'not-in-room');
+      return;
+    }
+    if (!message.text.trim()) {
+      conn.sendError('chat-message requires text', 'invalid-message');
+      return;
+    }
+    if (this.rooms.get(conn.roomId)?.muted.has(conn.identity)) {
+      conn.sendError('The host has muted your chat', 'chat-muted');
+      return;
+    }
+
+    const outgoing: ChatBroadcastMessage = {
+      type: 'chat-message',
+      roomId: conn.roomId,
+      userId: conn.userId,
+      fromId: conn.userId,
+      id: message.id ?? `${this.chatIdPrefix}_${++this.chatSeq}`,
+      // A member's registered name wins over whatever it puts in the message
+      username: this.rooms.getMember(conn.roomId, conn.userId)?.name ?? message.username,
+      text: message.text,
+      timestamp: Date.now(),
+      replyTo: message.replyTo,
+    };
+    // Everyone else, except the members the sender already reached over a data channel
+    const direct = new Set(message.direct);
+    this.rooms
+      .getOthers(conn.roomId, conn.userId)
+      .filter((member) => !direct.has(member.userId))
+      .forEach((member) => member.client.send(outgoing));
+    try {
+      this.chatHistory.append(conn.roomId, outgoing);
+    } catch (err) {
+      this.logger.error('[signaling] failed to store chat message:', err);
+    }
+  }
+
+  private handleChatEvent(conn: HubConnection, message: SendChatEventMessage) {
+    const room = conn.roomId === message.roomId ? this.rooms.get(message.roomId) : undefined;
+    const { userId } = conn;
+    if (!room || !userId) {
+      conn.sendError('Join the room before chatting', 'not-in-room');
+      return;
+    }
+    if (room.muted.has(conn.identity)) {
+      conn.sendError('The host has muted your chat', 'chat-muted');
+      return;
+    }
+    const { event } = message;
+    if (event.kind === 'edit' && !event.text.trim()) {
+      conn.sendError('An edit needs text; delete the message instead', 'invalid-message');
+      return;
+    }
+
+    try {
+      const target = this.chatHistory.find(room.id, event.target.fromId, event.target.id);
+      if (!target || target.deleted) {
+        conn.sendError('That message is gone', 'message-not-found');
+        return;
+      }
+      const now = Date.now();
+      if (
+        event.kind !== 'react' &&
+        !mayChangeChatMessage(event.kind, { authorId: target.fromId, sentAt: target.timestamp }, userId, conn.role === 'host', now)
+      ) {
+        conn.sendError(`You can no longer ${event.kind} that message`, 'forbidden');
+        return;
+      }
+      this.chatHistory.replace(room.id, applyChatEvent(target, event, userId, now));
+      room.members.forEach((member) => {
+        member.client.send({ type: 'chat-event', roomId: room.id, fromId: userId, event, timestamp: now });
+      });
+    } catch (err) {
+      this.logger.error('[signaling] failed to apply chat event:', err);
+    }
+  }
+
+  private handleChatHistory(conn: HubConnection, message: ChatHistoryRequestMessage) {
+    if (!conn.roomId || conn.roomId !== message.roomId) {
+      conn.sendError('Join the room before reading its chat', 'not-in-room');
+      return;
+    }
+    this.sendChatHistory(conn, conn.roomId, message.before);
+  }
+
+  private sendChatHistory(conn: HubConnection, roomId: string, before?: number) {
+    try {
+      conn.send({ type: 'chat-history', roomId, ...this.chatHistory.page(roomId, CHAT_HISTORY_PAGE_SIZE, before) });
+    } catch (err) {
+      this.logger.error('[signaling] failed to read chat history:', err);
+    }
+  }
+}
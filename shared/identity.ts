@@ -0,0 +1,50 @@
+// Client identities the hub hands out. Peer ids are public (rosters, relays), so they prove
+// nothing; the identity token is a secret the client keeps across reloads and sends back in
+// hello, which is how the hub tells a returning client from someone using its peer id.
+
+// 128 random bits, hex encoded
+export function newIdentityToken(): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(16));
+  return Array.from(bytes, (b) => b.toString(16).padStart(2, '0')).join('');
+}
+
+// Remembers the `maxTokens` tokens seen most recently; only those are honoured, so a client
+// cannot pick a token of its own. Tokens `inUse` still refers to are never forgotten, or a burst
+// of new connections could strip a host of its room.
+export class IdentityTokens {
+  private tokens = new Set<string>();
+
+  constructor(
+    private readonly maxTokens = 100_000,
+    private readonly inUse: (token: string) => boolean = () => false
+  ) {}
+
+  // The presented token if the hub issued it, else a new one
+  resolve(presented?: string): string {
+    const token = presented && this.tokens.has(presented) ? presented : newIdentityToken();
+    // Set order doubles as recency: the first token is the one to forget
+    this.touch(token);
+    this.evict();
+    return token;
+  }
+
+  private touch(token: string) {
+    this.tokens.delete(token);
+    this.tokens.add(token);
+  }
+
+  // Forget the oldest token nothing refers to; ones in use move to the back so the next pass
+  // does not check them again. When every token is in use the set is allowed to grow.
+  private evict() {
+    let checked = 0;
+    while (this.tokens.size > this.maxTokens && checked < this.tokens.size) {
+      const [oldest] = this.tokens;
+      if (this.inUse(oldest)) {
+        this.touch(oldest);
+        checked += 1;
+      } else {
+        this.tokens.delete(oldest);
+      }
+    }
+  }
+}
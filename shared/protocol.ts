@@ -0,0 +1,531 @@
+// Signaling protocol shared by the web client (src/lib/signaling.ts) and the server (server/src)
+// Bump PROTOCOL_VERSION whenever a message shape changes incompatibly.
+export const PROTOCOL_VERSION = 2;
+
+export type Role = 'host' | 'viewer';
+
+// Display names are trimmed to this length by the server
+export const MAX_DISPLAY_NAME_LENGTH = 40;
+
+// One member of a room as everyone else sees it; name is absent for clients that did not send one,
+// muted is set while the host has the member's chat muted
+export type Participant = { userId: string; role: Role; name?: string; muted?: boolean };
+
+// How media flows in a room: host-to-every-viewer mesh, through the server's SFU,
+// or down a tree of viewers that re-broadcast to other viewers
+export type RoomMode = 'mesh' | 'sfu' | 'tree';
+
+// Peer id of the server-side SFU; offers, answers and candidates addressed to it never reach a member
+export const SFU_PEER_ID = 'sfu';
+
+// Simulcast layers the host publishes in SFU rooms, by RTP stream id (rid). Viewers ask their
+// sender for one; browser senders, which cannot simulcast to a browser, cap their encoding instead.
+export type SimulcastLayer = 'high' | 'medium' | 'low';
+export const SIMULCAST_RIDS: Record<SimulcastLayer, string> = { high: 'h', medium: 'm', low: 'l' };
+
+// JSON-safe equivalents of RTCSessionDescriptionInit / RTCIceCandidateInit (no DOM types on the server)
+export type SessionDescription = {
+  type: 'offer' | 'answer' | 'pranswer' | 'rollback';
+  sdp?: string;
+};
+
+export type IceCandidate = {
+  candidate: string;
+  sdpMid?: string | null;
+  sdpMLineIndex?: number | null;
+  usernameFragment?: string | null;
+};
+
+// JSON-safe RTCIceServer; TURN entries carry short-lived coturn REST API credentials
+export type IceServer = {
+  urls: string | string[];
+  username?: string;
+  credential?: string;
+};
+
+export type IceConfig = {
+  iceServers: IceServer[];
+  iceTransportPolicy?: 'all' | 'relay';
+  // Unix time (seconds) after which TURN credentials stop working
+  expiresAt?: number;
+};
+
+export type ErrorCode =
+  | 'invalid-message'
+  | 'unknown-type'
+  | 'version-mismatch'
+  | 'handshake-required'
+  | 'room-not-found'
+  | 'not-in-room'
+  | 'peer-not-found'
+  | 'forbidden'
+  // The room has a passcode and the join did not carry it, or carried the wrong one
+  | 'passcode-required'
+  | 'passcode-incorrect'
+  // The host turned down a knocking viewer
+  | 'admission-denied'
+  // create-room for a room that belongs to another host
+  | 'room-exists'
+  // The host banned this viewer from the room
+  | 'banned'
+  // The host muted this viewer's chat
+  | 'chat-muted'
+  // A chat-event for a message that was deleted or is no longer kept in history
+  | 'message-not-found';
+
+// Host moderation of one viewer. A kick removes it from the room; a ban also keeps it out for as
+// long as the room lives; a muted viewer's chat messages are dropped.
+export type ModerationAction = 'kick' | 'ban' | 'mute' | 'unmute';
+
+// Who gets in: anyone with the link (and passcode, if set), or only viewers the host admits
+export type Admission = 'open' | 'knock';
+
+// Watch party: what the host's <video> is playing. Viewers play the same media and follow it.
+// A file is identified by name and size; viewers without a copy get the host's captureStream().
+export type PlaybackSource = { kind: 'url'; url: string } | { kind: 'file'; name: string; size: number };
+export type PlaybackState = {
+  // null ends the watch party
+  source: PlaybackSource | null;
+  playing: boolean;
+  // Media time in seconds when the state was sent
+  position: number;
+  rate: number;
+  // Increases with every state the host sends; older states are ignored
+  seq: number;
+};
+
+// Chat: a message is identified by its author and the id the author gave it
+export type ChatRef = { fromId: string; id: string };
+export const CHAT_REACTIONS = ['👍', '❤️', '😂', '😮', '😢', '🎉'] as const;
+export type ChatReaction = (typeof CHAT_REACTIONS)[number];
+// Authors may edit or delete a message for this long after sending it; the host may delete any
+// message at any time
+export const CHAT_EDIT_WINDOW_MS = 5 * 60 * 1000;
+// Changes to a sent message; react adds (on) or withdraws the sender's reaction
+export type ChatEvent =
+  | { kind: 'react'; target: ChatRef; emoji: ChatReaction; on: boolean }
+  | { kind: 'edit'; target: ChatRef; text: string }
+  | { kind: 'delete'; target: ChatRef };
+// Chat sent straight to a member over a data channel, bypassing the server; the channel says
+// who wrote it
+export type ChatChannelMessage = { type: 'chat'; message: { id: string; text: string; replyTo?: ChatRef } };
+
+// ---- Client → server ----
+
+// token: the identity token from an earlier welcome, if the client kept one
+export type HelloMessage = { type: 'hello'; version: number; token?: string };
+// mode is a request; the server may fall back to mesh and says which in room-joined
+export type CreateRoomMessage = {
+  type: 'create-room';
+  roomId: string;
+  userId: string;
+  mode?: RoomMode;
+  // Display name shown to the room
+  name?: string;
+  // Viewers must send this passcode to join; absent or empty means none
+  passcode?: string;
+  admission?: Admission;
+};
+export type JoinRoomMessage = { type: 'join-room'; roomId: string; userId: string; passcode?: string; name?: string };
+export type LeaveRoomMessage = { type: 'leave-room'; roomId: string };
+// session identifies the peer connection generation; a new session means "rebuild", same session means renegotiate
+export type OfferMessage = { type: 'offer'; roomId: string; targetId: string; data: SessionDescription; session?: number };
+export type AnswerMessage = { type: 'answer'; roomId: string; targetId: string; data: SessionDescription };
+export type IceCandidateMessage = { type: 'ice-candidate'; roomId: string; targetId: string; data: IceCandidate | null };
+// Which layer the sender should send us; relayed like offers (to the SFU, host or relay parent)
+export type LayerRequestMessage = { type: 'layer-request'; roomId: string; targetId: string; layer: SimulcastLayer };
+// Host only: current watch-party state, sent on every change and periodically while playing
+export type PlaybackMessage = { type: 'playback'; roomId: string; state: PlaybackState };
+// username is only used for senders that joined without a name; otherwise the server stamps their name.
+// id is chosen by the sender so copies arriving by different paths can be recognized (the server
+// makes one up if it is missing); direct lists members the sender already reached over a data
+// channel, which the server then skips. replyTo quotes an earlier message.
+export type SendChatMessage = {
+  type: 'chat-message';
+  roomId: string;
+  userId: string;
+  id?: string;
+  username?: string;
+  text: string;
+  replyTo?: ChatRef;
+  direct?: string[];
+};
+// Checked against the server's copy of the target message, which it then updates
+export type SendChatEventMessage = { type: 'chat-event'; roomId: string; event: ChatEvent };
+// Older chat than the member has, starting before the cursor of the last chat-history it got
+export type ChatHistoryRequestMessage = { type: 'chat-history'; roomId: string; before: number };
+export type PingMessage = { type: 'ping'; ts: number };
+// Tree rooms: how much upload bandwidth this member could spend relaying to others
+export type RelayCapacityMessage = { type: 'relay-capacity'; roomId: string; uplinkKbps: number };
+// Host only: change the passcode or admission of the live room (create-room carries them too)
+export type RoomAccessMessage = { type: 'room-access'; roomId: string; passcode?: string; admission: Admission };
+// Host only: let a knocking viewer in, or turn it away
+export type AdmissionMessage = { type: 'admission'; roomId: string; userId: string; admit: boolean };
+// Host only: kick, ban, mute or unmute a viewer
+export type ModerateMessage = { type: 'moderate'; roomId: string; userId: string; action: ModerationAction };
+// Viewer only: measured glass-to-glass latency, passed on to the host
+export type LatencyReportMessage = { type: 'latency-report'; roomId: string; latencyMs: number };
+
+export type RelayMessage = OfferMessage | AnswerMessage | IceCandidateMessage | LayerRequestMessage;
+
+export type ClientMessage =
+  | HelloMessage
+  | CreateRoomMessage
+  | JoinRoomMessage
+  | LeaveRoomMessage
+  | RelayMessage
+  | SendChatMessage
+  | SendChatEventMessage
+  | ChatHistoryRequestMessage
+  | PingMessage
+  | RelayCapacityMessage
+  | LatencyReportMessage
+  | AdmissionMessage
+  | RoomAccessMessage
+  | ModerateMessage
+  | PlaybackMessage;
+
+// ---- Server → client ----
+
+// token: the client's identity; kept secret and sent back in hello so that reconnects and reloads
+// are recognised as the same client
+export type WelcomeMessage = { type: 'welcome'; version: number; token?: string };
+// Answer to a ping carrying `ts`: echoes it with the server clock, for clock synchronization
+export type PongMessage = { type: 'pong'; ts: number; serverTime: number };
+export type RoomJoinedMessage = {
+  type: 'room-joined';
+  roomId: string;
+  userId: string;
+  role: Role;
+  hostId: string | null;
+  viewers?: string[];
+  // Absent means mesh (older servers)
+  mode?: RoomMode;
+};
+export type IceConfigMessage = { type: 'ice-config' } & IceConfig;
+export type ViewerJoinedMessage = { type: 'viewer-joined'; roomId: string; userId: string };
+export type ViewerLeftMessage = { type: 'viewer-left'; roomId: string; userId: string };
+export type HostLeftMessage = { type: 'host-left'; roomId: string; userId: string };
+// Presence: the whole roster to a member as it enters, then joins, changes and leaves to everyone else
+export type RosterMessage = { type: 'roster'; roomId: string; participants: Participant[] };
+export type ParticipantJoinedMessage = { type: 'participant-joined'; roomId: string; participant: Participant };
+// A member's entry changed in place (the host muted or unmuted its chat)
+export type ParticipantUpdatedMessage = { type: 'participant-updated'; roomId: string; participant: Participant };
+export type ParticipantLeftMessage = { type: 'participant-left'; roomId: string; userId: string };
+// Knock rooms: to the joining viewer, which waits until it gets room-joined or admission-denied
+export type AdmissionPendingMessage = { type: 'admission-pending'; roomId: string };
+// Knock rooms: to the host, when a viewer asks to join and when it stops waiting
+export type KnockMessage = { type: 'knock'; roomId: string; userId: string; name?: string };
+export type KnockWithdrawnMessage = { type: 'knock-withdrawn'; roomId: string; userId: string };
+// To a viewer the host kicked or banned; the server has already taken it out of the room
+export type RemovedMessage = { type: 'removed'; roomId: string; banned: boolean };
+// To a viewer whose chat the host muted or unmuted (and to a muted viewer when it rejoins)
+export type ChatMutedMessage = { type: 'chat-muted'; roomId: string; muted: boolean };
+export type Relayed<M extends RelayMessage> = M & { fromId: string };
+export type ChatBroadcastMessage = {
+  type: 'chat-message';
+  roomId: string;
+  userId: string;
+  fromId: string;
+  id: string;
+  username?: string;
+  // Empty once deleted
+  text: string;
+  timestamp: number;
+  replyTo?: ChatRef;
+  // Only in chat-history: the message's state after later chat-events. reactions lists who
+  // reacted with each emoji.
+  reactions?: Partial<Record<ChatReaction, string[]>>;
+  editedAt?: number;
+  deleted?: boolean;
+};
+// To everyone in the room, the sender included, once the server has applied it to its history
+export type ChatEventBroadcastMessage = {
+  type: 'chat-event';
+  roomId: string;
+  fromId: string;
+  event: ChatEvent;
+  timestamp: number;
+};
+// Recent chat, oldest first: sent right after room-joined, then one page per chat-history request.
+// cursor is null when there is nothing older.
+export type ChatHistoryMessage = {
+  type: 'chat-history';
+  roomId: string;
+  messages: ChatBroadcastMessage[];
+  cursor: number | null;
+};
+// Tree rooms: where this member gets the stream from (null for the host) and whom it forwards it to
+export type RelayAssignmentMessage = {
+  type: 'relay-assignment';
+  roomId: string;
+  parentId: string | null;
+  children: string[];
+};
+export type TreeNode = { userId: string; parentId: string | null; capacity: number; uplinkKbps?: number };
+// Tree rooms: the whole tree, sent to the host whenever it changes
+export type TreeTopologyMessage = { type: 'tree-topology'; roomId: string; nodes: TreeNode[] };
+// To every viewer; a viewer joining mid-party gets the latest state with the position brought up to date
+export type PlaybackBroadcastMessage = PlaybackMessage & { fromId: string };
+// To the host, from the viewer that measured it
+export type LatencyReportBroadcastMessage = LatencyReportMessage & { fromId: string };
+export type ErrorMessage = { type: 'error'; code: ErrorCode; message: string; expectedVersion?: number };
+
+export type ServerMessage =
+  | WelcomeMessage
+  | PongMessage
+  | RoomJoinedMessage
+  | IceConfigMessage
+  | ViewerJoinedMessage
+  | ViewerLeftMessage
+  | HostLeftMessage
+  | RosterMessage
+  | ParticipantJoinedMessage
+  | ParticipantUpdatedMessage
+  | ParticipantLeftMessage
+  | AdmissionPendingMessage
+  | KnockMessage
+  | KnockWithdrawnMessage
+  | RemovedMessage
+  | ChatMutedMessage
+  | Relayed<OfferMessage>
+  | Relayed<AnswerMessage>
+  | Relayed<IceCandidateMessage>
+  | Relayed<LayerRequestMessage>
+  | ChatBroadcastMessage
+  | ChatEventBroadcastMessage
+  | ChatHistoryMessage
+  | RelayAssignmentMessage
+  | TreeTopologyMessage
+  | PlaybackBroadcastMessage
+  | LatencyReportBroadcastMessage
+  | ErrorMessage;
+
+export type ClientMessageType = ClientMessage['type'];
+export type ServerMessageType = ServerMessage['type'];
+export type ServerMessageOf<T extends ServerMessageType> = Extract<ServerMessage, { type: T }>;
+
+// ---- Runtime validation ----
+
+export type ParseResult<M> = { ok: true; message: M } | { ok: false; code: ErrorCode; error: string };
+
+type Fields = Record<string, unknown>;
+type FieldCheck = (value: unknown) => boolean;
+
+const isString: FieldCheck = (v) => typeof v === 'string' && v.length > 0;
+const isText: FieldCheck = (v) => typeof v === 'string';
+const isNumber: FieldCheck = (v) => typeof v === 'number' && Number.isFinite(v);
+const optional = (check: FieldCheck): FieldCheck => (v) => v === undefined || check(v);
+const nullable = (check: FieldCheck): FieldCheck => (v) => v === null || check(v);
+const oneOf = (...values: string[]): FieldCheck => (v) => typeof v === 'string' && values.includes(v);
+const isStringArray: FieldCheck = (v) => Array.isArray(v) && v.every(isString);
+
+const isObject = (v: unknown): v is Fields => typeof v === 'object' && v !== null && !Array.isArray(v);
+
+const roomModes = ['mesh', 'sfu', 'tree'];
+
+const isSessionDescription: FieldCheck = (v) =>
+  isObject(v) && oneOf('offer', 'answer', 'pranswer', 'rollback')(v.type) && optional(isText)(v.sdp);
+
+const isIceCandidate: FieldCheck = (v) =>
+  isObject(v) &&
+  isText(v.candidate) &&
+  optional(nullable(isText))(v.sdpMid) &&
+  optional(nullable(isNumber))(v.sdpMLineIndex) &&
+  optional(nullable(isText))(v.usernameFragment);
+
+const isIceServer: FieldCheck = (v) =>
+  isObject(v) &&
+  (isString(v.urls) || isStringArray(v.urls)) &&
+  optional(isText)(v.username) &&
+  optional(isText)(v.credential);
+
+const isTreeNode: FieldCheck = (v) =>
+  isObject(v) &&
+  isString(v.userId) &&
+  nullable(isString)(v.parentId) &&
+  isNumber(v.capacity) &&
+  optional(isNumber)(v.uplinkKbps);
+
+const isParticipant: FieldCheck = (v) =>
+  isObject(v) &&
+  isString(v.userId) &&
+  oneOf('host', 'viewer')(v.role) &&
+  optional(isText)(v.name) &&
+  optional((m) => typeof m === 'boolean')(v.muted);
+
+const isPlaybackSource: FieldCheck = (v) =>
+  isObject(v) &&
+  ((v.kind === 'url' && isText(v.url)) || (v.kind === 'file' && isText(v.name) && isNumber(v.size)));
+
+const isPlaybackState: FieldCheck = (v) =>
+  isObject(v) &&
+  nullable(isPlaybackSource)(v.source) &&
+  typeof v.playing === 'boolean' &&
+  isNumber(v.position) &&
+  isNumber(v.rate) &&
+  isNumber(v.seq);
+
+const isChatRef: FieldCheck = (v) => isObject(v) && isString(v.fromId) && isString(v.id);
+
+const isChatReaction = oneOf(...CHAT_REACTIONS);
+
+const isChatEvent: FieldCheck = (v) =>
+  isObject(v) &&
+  isChatRef(v.target) &&
+  ((v.kind === 'react' && isChatReaction(v.emoji) && typeof v.on === 'boolean') ||
+    (v.kind === 'edit' && isString(v.text)) ||
+    v.kind === 'delete');
+
+const isReactions: FieldCheck = (v) =>
+  isObject(v) && Object.entries(v).every(([emoji, users]) => isChatReaction(emoji) && isStringArray(users));
+
+const isChatBroadcast: FieldCheck = (v) =>
+  isObject(v) &&
+  isString(v.fromId) &&
+  isString(v.id) &&
+  optional(isText)(v.username) &&
+  isText(v.text) &&
+  isNumber(v.timestamp) &&
+  optional(isChatRef)(v.replyTo) &&
+  optional(isReactions)(v.reactions) &&
+  optional(isNumber)(v.editedAt) &&
+  optional((d) => typeof d === 'boolean')(v.deleted);
+
+const clientSchemas: Record<ClientMessageType, Record<string, FieldCheck>> = {
+  hello: { version: isNumber, token: optional(isString) },
+  'create-room': {
+    roomId: isString,
+    userId: isString,
+    mode: optional(oneOf(...roomModes)),
+    name: optional(isText),
+    passcode: optional(isText),
+    admission: optional(oneOf('open', 'knock')),
+  },
+  'join-room': { roomId: isString, userId: isString, passcode: optional(isText), name: optional(isText) },
+  'leave-room': { roomId: isString },
+  offer: { roomId: isString, targetId: isString, data: isSessionDescription, session: optional(isNumber) },
+  answer: { roomId: isString, targetId: isString, data: isSessionDescription },
+  'ice-candidate': { roomId: isString, targetId: isString, data: nullable(isIceCandidate) },
+  'layer-request': { roomId: isString, targetId: isString, layer: oneOf('high', 'medium', 'low') },
+  'chat-message': {
+    roomId: isString,
+    userId: isString,
+    id: optional(isString),
+    username: optional(isText),
+    text: isString,
+    replyTo: optional(isChatRef),
+    direct: optional(isStringArray),
+  },
+  'chat-event': { roomId: isString, event: isChatEvent },
+  'chat-history': { roomId: isString, before: isNumber },
+  ping: { ts: optional(isNumber) },
+  playback: { roomId: isString, state: isPlaybackState },
+  'relay-capacity': { roomId: isString, uplinkKbps: (v) => isNumber(v) && (v as number) >= 0 },
+  'latency-report': { roomId: isString, latencyMs: (v) => isNumber(v) && (v as number) >= 0 },
+  admission: { roomId: isString, userId: isString, admit: (v) => typeof v === 'boolean' },
+  'room-access': { roomId: isString, passcode: optional(isText), admission: oneOf('open', 'knock') },
+  moderate: { roomId: isString, userId: isString, action: oneOf('kick', 'ban', 'mute', 'unmute') },
+};
+
+const relayed = { fromId: isString };
+
+const serverSchemas: Record<ServerMessageType, Record<string, FieldCheck>> = {
+  welcome: { version: isNumber, token: optional(isString) },
+  pong: { ts: isNumber, serverTime: isNumber },
+  'room-joined': {
+    roomId: isString,
+    userId: isString,
+    role: oneOf('host', 'viewer'),
+    hostId: nullable(isString),
+    viewers: optional(isStringArray),
+    mode: optional(oneOf(...roomModes)),
+  },
+  'ice-config': {
+    iceServers: (v) => Array.isArray(v) && v.every(isIceServer),
+    iceTransportPolicy: optional(oneOf('all', 'relay')),
+    expiresAt: optional(isNumber),
+  },
+  'viewer-joined': { roomId: isString, userId: isString },
+  'viewer-left': { roomId: isString, userId: isString },
+  'host-left': { roomId: isString, userId: isString },
+  roster: { roomId: isString, participants: (v) => Array.isArray(v) && v.every(isParticipant) },
+  'participant-joined': { roomId: isString, participant: isParticipant },
+  'participant-updated': { roomId: isString, participant: isParticipant },
+  'participant-left': { roomId: isString, userId: isString },
+  'admission-pending': { roomId: isString },
+  knock: { roomId: isString, userId: isString, name: optional(isText) },
+  'knock-withdrawn': { roomId: isString, userId: isString },
+  removed: { roomId: isString, banned: (v) => typeof v === 'boolean' },
+  'chat-muted': { roomId: isString, muted: (v) => typeof v === 'boolean' },
+  offer: { ...clientSchemas.offer, ...relayed },
+  answer: { ...clientSchemas.answer, ...relayed },
+  'ice-candidate': { ...clientSchemas['ice-candidate'], ...relayed },
+  'layer-request': { ...clientSchemas['layer-request'], ...relayed },
+  'chat-message': {
+    roomId: isString,
+    userId: isString,
+    fromId: isString,
+    id: isString,
+    username: optional(isText),
+    text: isString,
+    timestamp: isNumber,
+    replyTo: optional(isChatRef),
+  },
+  'chat-event': { roomId: isString, fromId: isString, event: isChatEvent, timestamp: isNumber },
+  'chat-history': {
+    roomId: isString,
+    messages: (v) => Array.isArray(v) && v.every(isChatBroadcast),
+    cursor: nullable(isNumber),
+  },
+  'relay-assignment': { roomId: isString, parentId: nullable(isString), children: isStringArray },
+  playback: { roomId: isString, state: isPlaybackState, fromId: isString },
+  'latency-report': { ...clientSchemas['latency-report'], fromId: isString },
+  'tree-topology': { roomId: isString, nodes: (v) => Array.isArray(v) && v.every(isTreeNode) },
+  error: { code: isString, message: isText, expectedVersion: optional(isNumber) },
+};
+
+// Data channel traffic between members, which the server never checks
+const channelSchemas: Record<ChatChannelMessage['type'], Record<string, FieldCheck>> = {
+  chat: { message: (v) => isObject(v) && isString(v.id) && isString(v.text) && optional(isChatRef)(v.replyTo) },
+};
+
+function parseWith<M>(schemas: Record<string, Record<string, FieldCheck>>, raw: unknown): ParseResult<M> {
+  let value = raw;
+  if (typeof raw === 'string') {
+    try {
+      value = JSON.parse(raw);
+    } catch {
+      return { ok: false, code: 'invalid-message', error: 'Malformed JSON' };
+    }
+  }
+
+  if (!isObject(value) || typeof value.type !== 'string') {
+    return { ok: false, code: 'invalid-message', error: 'Message must have a type' };
+  }
+
+  const schema = Object.prototype.hasOwnProperty.call(schemas, value.type) ? schemas[value.type] : undefined;
+  if (!schema) {
+    return { ok: false, code: 'unknown-type', error: `Unknown message type: ${value.type}` };
+  }
+
+  for (const [field, check] of Object.entries(schema)) {
+    if (!check(value[field])) {
+      return { ok: false, code: 'invalid-message', error: `Invalid or missing "${field}" in ${value.type}` };
+    }
+  }
+
+  return { ok: true, message: value as M };
+}
+
+export function parseClientMessage(raw: unknown): ParseResult<ClientMessage> {
+  return parseWith<ClientMessage>(clientSchemas, raw);
+}
+
+export function parseServerMessage(raw: unknown): ParseResult<ServerMessage> {
+  return parseWith<ServerMessage>(serverSchemas, raw);
+}
+
+export function parseChatChannelMessage(raw: unknown): ParseResult<ChatChannelMessage> {
+  return parseWith<ChatChannelMessage>(channelSchemas, raw);
+}
@@ -0,0 +1,132 @@
+// In-memory room bookkeeping for the signaling hub
+import type { Admission, Role, RoomMode } from './protocol';
+
+export interface Member<C> {
+  userId: string;
+  role: Role;
+  // Display name, when the client sent one
+  name?: string;
+  client: C;
+}
+
+export interface RoomAccess {
+  passcode: string | null;
+  admission: Admission;
+}
+
+export const OPEN_ACCESS: RoomAccess = { passcode: null, admission: 'open' };
+
+export interface Room<C> {
+  id: string;
+  hostId: string | null;
+  // Identity (see identity.ts) of the client that created the room; only it may host it again
+  hostIdentity: string | null;
+  mode: RoomMode;
+  access: RoomAccess;
+  // Knock rooms: viewers the host let in, who skip the queue when they reconnect
+  admitted: Set<string>;
+  // Host moderation, for as long as the room lives. These sets, like admitted, hold identities
+  // rather than userIds, which a reloaded page picks anew
+  banned: Set<string>;
+  muted: Set<string>;
+  members: Map<string, Member<C>>;
+  createdAt: number;
+}
+
+export class RoomRegistry<C> {
+  private rooms: Map<string, Room<C>> = new Map();
+
+  get size() {
+    return this.rooms.size;
+  }
+
+  get(roomId: string): Room<C> | undefined {
+    return this.rooms.get(roomId);
+  }
+
+  values(): IterableIterator<Room<C>> {
+    return this.rooms.values();
+  }
+
+  // Create the room if needed and register the caller as its host; an existing room keeps its
+  // mode but takes the host's current access settings
+  createRoom(
+    roomId: string,
+    userId: string,
+    client: C,
+    mode: RoomMode = 'mesh',
+    access = OPEN_ACCESS,
+    name?: string
+  ): Room<C> {
+    let room = this.rooms.get(roomId);
+    if (!room) {
+      room = {
+        id: roomId,
+        hostId: null,
+        hostIdentity: null,
+        mode,
+        access,
+        admitted: new Set(),
+        banned: new Set(),
+        muted: new Set(),
+        members: new Map(),
+        createdAt: Date.now(),
+      };
+      this.rooms.set(roomId, room);
+    }
+
+    room.access = access;
+    room.hostId = userId;
+    room.members.set(userId, { userId, role: 'host', name, client });
+    return room;
+  }
+
+  // Add a viewer to an existing room; returns undefined when the room does not exist
+  joinRoom(roomId: string, userId: string, client: C, name?: string): Room<C> | undefined {
+    const room = this.rooms.get(roomId);
+    if (!room) return undefined;
+
+    room.members.set(userId, { userId, role: 'viewer', name, client });
+    return room;
+  }
+
+  // Remove a member and drop the room once nobody is left in it
+  leaveRoom(roomId: string, userId: string): Member<C> | undefined {
+    const room = this.rooms.get(roomId);
+    if (!room) return undefined;
+
+    const member = room.members.get(userId);
+    if (!member) return undefined;
+
+    room.members.delete(userId);
+    if (room.hostId === userId) {
+      room.hostId = null;
+    }
+    if (room.members.size === 0) {
+      this.rooms.delete(roomId);
+    }
+    return member;
+  }
+
+  getMember(roomId: string, userId: string): Member<C> | undefined {
+    return this.rooms.get(roomId)?.members.get(userId);
+  }
+
+  getHost(roomId: string): Member<C> | undefined {
+    const room = this.rooms.get(roomId);
+    if (!room || !room.hostId) return undefined;
+    return room.members.get(room.hostId);
+  }
+
+  getViewers(roomId: string): Member<C>[] {
+    const room = this.rooms.get(roomId);
+    if (!room) return [];
+    return [...room.members.values()].filter((m) => m.role === 'viewer');
+  }
+
+  getOthers(roomId: string, userId: string): Member<C>[] {
+    const room = this.rooms.get(roomId);
+    if (!room) return [];
+    return [...room.members.values()].filter((m) => m.userId !== userId);
+  }
+}
@@ -0,0 +1,143 @@
+// Relay-tree placement for 'tree' rooms: the host sends to a few viewers, viewers with
+// spare uplink forward to more viewers, and so on. Placement is incremental: a viewer keeps
+// its parent until that parent leaves or loses capacity, and a relay's subtree moves with it.
+import type { TreeNode } from './protocol';
+
+// The host's browser sends to at most this many viewers directly (unless nobody else can relay)
+export const HOST_MAX_CHILDREN = 4;
+export const MAX_RELAY_CHILDREN = 3;
+// What one forwarded copy of the stream costs, matching the 'high' adaptive quality preset
+export const RELAY_STREAM_KBPS = 2500;
+// Share of the reported uplink we are willing to spend on relaying
+const UPLINK_HEADROOM = 0.8;
+
+export function capacityFromUplink(uplinkKbps: number): number {
+  return Math.max(0, Math.min(MAX_RELAY_CHILDREN, Math.floor((uplinkKbps * UPLINK_HEADROOM) / RELAY_STREAM_KBPS)));
+}
+
+export interface RelayAssignment {
+  parentId: string | null;
+  children: string[];
+}
+
+interface Node {
+  userId: string;
+  parentId: string | null;
+  capacity: number;
+  uplinkKbps?: number;
+  // Join order; earlier joiners keep their slot when a parent shrinks
+  order: number;
+}
+
+export class RelayTree {
+  private nodes = new Map<string, Node>();
+  private joinCounter = 0;
+
+  constructor(readonly rootId: string, rootCapacity = HOST_MAX_CHILDREN) {
+    this.nodes.set(rootId, { userId: rootId, parentId: null, capacity: rootCapacity, order: 0 });
+  }
+
+  has(userId: string) {
+    return this.nodes.has(userId);
+  }
+
+  // Each mutation returns the members whose assignment changed
+
+  add(userId: string): string[] {
+    if (this.nodes.has(userId)) return [];
+    this.nodes.set(userId, { userId, parentId: null, capacity: 0, order: ++this.joinCounter });
+    return this.rebalance();
+  }
+
+  remove(userId: string): string[] {
+    if (userId === this.rootId || !this.nodes.has(userId)) return [];
+    const before = this.snapshot();
+    this.nodes.delete(userId);
+    return this.rebalance(before);
+  }
+
+  setUplink(userId: string, uplinkKbps: number): string[] {
+    const node = this.nodes.get(userId);
+    if (!node || userId === this.rootId) return [];
+    node.uplinkKbps = uplinkKbps;
+    node.capacity = capacityFromUplink(uplinkKbps);
+    return this.rebalance();
+  }
+
+  assignment(userId: string): RelayAssignment | undefined {
+    const node = this.nodes.get(userId);
+    if (!node) return undefined;
+    return { parentId: node.parentId, children: this.childrenOf(userId).map((c) => c.userId) };
+  }
+
+  topology(): TreeNode[] {
+    return [...this.nodes.values()].map(({ userId, parentId, capacity, uplinkKbps }) => ({
+      userId,
+      parentId,
+      capacity,
+      uplinkKbps,
+    }));
+  }
+
+  private childrenOf(userId: string): Node[] {
+    return [...this.nodes.values()]
+      .filter((n) => n.parentId === userId)
+      .sort((a, b) => a.order - b.order);
+  }
+
+  private snapshot(): Map<string, string> {
+    const snapshot = new Map<string, string>();
+    this.nodes.forEach((node, userId) => {
+      const { parentId, children } = this.assignment(userId)!;
+      snapshot.set(userId, `${parentId}|${children.join(',')}`);
+    });
+    return snapshot;
+  }
+
+  private rebalance(before = this.snapshot()): string[] {
+    // Detach viewers whose parent is gone or over capacity (latest joiners first)
+    this.nodes.forEach((node) => {
+      if (node.parentId && !this.nodes.has(node.parentId)) node.parentId = null;
+    });
+    this.nodes.forEach((node) => {
+      if (node.userId === this.rootId) return;
+      this.childrenOf(node.userId).slice(node.capacity).forEach((child) => {
+        child.parentId = null;
+      });
+    });
+
+    // Place detached viewers, strongest uplinks first so relays end up near the top
+    const detached = [...this.nodes.values()]
+      .filter((n) => n.userId !== this.rootId && n.parentId === null)
+      .sort((a, b) => b.capacity - a.capacity || a.order - b.order);
+    for (const node of detached) {
+      // Nobody has a free slot: the host takes the viewer directly
+      node.parentId = this.findSlot() ?? this.rootId;
+    }
+
+    const after = this.snapshot();
+    const changed = new Set<string>();
+    before.forEach((value, userId) => {
+      if (after.get(userId) !== value) changed.add(userId);
+    });
+    after.forEach((value, userId) => {
+      if (before.get(userId) !== value) changed.add(userId);
+    });
+    // Members that left are not reported
+    return [...changed].filter((userId) => this.nodes.has(userId));
+  }
+
+  // Shallowest attached node with a free slot. A detached viewer's own subtree is not
+  // reachable from the root, so a viewer can never be placed below itself.
+  private findSlot(): string | undefined {
+    const queue = [this.rootId];
+    while (queue.length > 0) {
+      const userId = queue.shift()!;
+      const node = this.nodes.get(userId)!;
+      const children = this.childrenOf(userId);
+      if (children.length < node.capacity) return userId;
+      queue.push(...children.map((c) => c.userId));
+    }
+    return undefined;
+  }
+}
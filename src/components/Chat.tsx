@@ -1,38 +1,122 @@
-import { useState, useEffect, useRef } from 'react';
+import { useState, useLayoutEffect, useMemo, useRef } from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Input } from '@/components/ui/input';
 import { Button } from '@/components/ui/button';
 import { ScrollArea } from '@/components/ui/scroll-area';
-import { Send } from 'lucide-react';
-
-export interface ChatMessage {
-  id: string;
-  sender: string;
-  text: string;
-  timestamp: number;
-}
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Pencil, Reply, Send, SmilePlus, Trash2, X } from 'lucide-react';
+import { canChangeMessage, chatRef, messageKey, type ChatMessage } from '@/lib/chat';
+import { CHAT_REACTIONS, type ChatReaction, type ChatRef } from '@/lib/signaling';
 
 interface ChatProps {
   messages: ChatMessage[];
-  onSendMessage: (text: string) => void;
-  userName: string;
+  onSendMessage: (text: string, replyTo?: ChatRef) => void;
+  onReact: (message: ChatMessage, emoji: ChatReaction, on: boolean) => void;
+  onEdit: (message: ChatMessage, text: string) => void;
+  onDelete: (message: ChatMessage) => void;
+  // Our own peer ID
+  selfId: string;
+  // The host may delete anyone's message
+  isHost?: boolean;
+  // Shown instead of the input's placeholder when sending is not allowed (e.g. muted by the host)
+  disabledReason?: string;
+  // Older messages the server still has; onLoadOlder is called when the user scrolls to the top
+  hasOlder?: boolean;
+  loadingOlder?: boolean;
+  onLoadOlder?: () => void;
+}
+
+// How close to the top (px) scrolling has to get before older messages are fetched
+const LOAD_OLDER_THRESHOLD = 40;
+
+// Quoted text is cut to this many characters
+const QUOTE_LENGTH = 80;
+
+function excerpt(message: ChatMessage | undefined): string {
+  if (!message) return 'An earlier message';
+  if (message.deleted) return 'Message deleted';
+  return message.text.length > QUOTE_LENGTH ? `${message.text.slice(0, QUOTE_LENGTH)}…` : message.text;
 }
 
-export default function Chat({ messages, onSendMessage, userName }: ChatProps) {
+export default function Chat({
+  messages,
+  onSendMessage,
+  onReact,
+  onEdit,
+  onDelete,
+  selfId,
+  isHost = false,
+  disabledReason,
+  hasOlder,
+  loadingOlder,
+  onLoadOlder,
+}: ChatProps) {
   const [inputText, setInputText] = useState('');
+  // What the input is for besides a new message: answering one, or rewriting one of ours
+  const [replyingTo, setReplyingTo] = useState<ChatMessage | null>(null);
+  const [editing, setEditing] = useState<ChatMessage | null>(null);
   const scrollRef = useRef<HTMLDivElement>(null);
+  // Distance from the bottom the user has scrolled to, and the newest message we scrolled to
+  const fromBottomRef = useRef(0);
+  const newestRef = useRef<string | undefined>(undefined);
+  // Messages arrive over different paths; show them in the order they were sent
+  const ordered = useMemo(() => [...messages].sort((a, b) => a.timestamp - b.timestamp), [messages]);
+  const byKey = useMemo(() => new Map(messages.map((m) => [messageKey(chatRef(m)), m])), [messages]);
+
+  // The ScrollArea root does not scroll itself; its viewport does
+  const viewport = () => scrollRef.current?.querySelector<HTMLElement>('[data-radix-scroll-area-viewport]');
 
-  useEffect(() => {
-    if (scrollRef.current) {
-      scrollRef.current.scrollTop = scrollRef.current.scrollHeight;
+  useLayoutEffect(() => {
+    const el = viewport();
+    if (!el) return;
+    const newest = ordered[ordered.length - 1];
+    const newestKey = newest && messageKey(chatRef(newest));
+    if (newestKey !== newestRef.current) {
+      newestRef.current = newestKey;
+      el.scrollTop = el.scrollHeight;
+    } else {
+      // Older messages went in above, or a message changed: keep the ones being read where they were
+      el.scrollTop = el.scrollHeight - el.clientHeight - fromBottomRef.current;
     }
-  }, [messages]);
+  }, [ordered]);
+
+  const handleScroll = () => {
+    const el = viewport();
+    if (!el) return;
+    fromBottomRef.current = el.scrollHeight - el.clientHeight - el.scrollTop;
+    if (el.scrollTop < LOAD_OLDER_THRESHOLD && hasOlder && !loadingOlder) {
+      onLoadOlder?.();
+    }
+  };
+
+  const startReply = (message: ChatMessage) => {
+    setEditing(null);
+    setReplyingTo(message);
+  };
+
+  const startEdit = (message: ChatMessage) => {
+    setReplyingTo(null);
+    setEditing(message);
+    setInputText(message.text);
+  };
+
+  const cancelCompose = () => {
+    if (editing) setInputText('');
+    setReplyingTo(null);
+    setEditing(null);
+  };
 
   const handleSend = () => {
-    if (inputText.trim()) {
-      onSendMessage(inputText);
-      setInputText('');
+    const text = inputText.trim();
+    if (!text || disabledReason) return;
+    if (editing) {
+      if (text !== editing.text) onEdit(editing, text);
+    } else {
+      onSendMessage(inputText, replyingTo ? chatRef(replyingTo) : undefined);
     }
+    setInputText('');
+    setReplyingTo(null);
+    setEditing(null);
   };
 
   const handleKeyPress = (e: React.KeyboardEvent) => {
@@ -48,53 +132,144 @@ export default function Chat({ messages, onSendMessage, userName }: ChatProps) {
         <CardTitle className="text-lg">Chat</CardTitle>
       </CardHeader>
       <CardContent className="flex-1 flex flex-col p-4 pt-0 space-y-4">
-        <ScrollArea className="flex-1 pr-4" ref={scrollRef}>
+        <ScrollArea className="flex-1 pr-4" ref={scrollRef} onScrollCapture={handleScroll}>
           <div className="space-y-3">
+            {hasOlder && (
+              <div className="flex justify-center">
+                <Button variant="ghost" size="sm" onClick={onLoadOlder} disabled={loadingOlder}>
+                  {loadingOlder ? 'Loading…' : 'Load earlier messages'}
+                </Button>
+              </div>
+            )}
             {messages.length === 0 ? (
               <p className="text-sm text-muted-foreground text-center py-8">
                 No messages yet. Start the conversation!
               </p>
             ) : (
-              messages.map((message) => (
-                <div
-                  key={message.id}
-                  className={`flex flex-col ${
-                    message.sender === userName ? 'items-end' : 'items-start'
-                  }`}
-                >
+              ordered.map((message) => {
+                const mine = message.senderId === selfId;
+                const quoted = message.replyTo && byKey.get(messageKey(message.replyTo));
+                // Muted members cannot react, reply, edit or delete either
+                const actionable = !message.deleted && !disabledReason;
+                return (
                   <div
-                    className={`rounded-lg px-3 py-2 max-w-[80%] ${
-                      message.sender === userName
-                        ? 'bg-primary text-primary-foreground'
-                        : 'bg-muted'
-                    }`}
+                    key={messageKey(chatRef(message))}
+                    className={`group flex flex-col ${mine ? 'items-end' : 'items-start'}`}
                   >
-                    <p className="text-xs font-semibold mb-1">
-                      {message.sender}
-                    </p>
-                    <p className="text-sm break-words">{message.text}</p>
+                    <div
+                      className={`rounded-lg px-3 py-2 max-w-[80%] ${
+                        mine ? 'bg-primary text-primary-foreground' : 'bg-muted'
+                      }`}
+                    >
+                      <p className="text-xs font-semibold mb-1">
+                        {message.sender}
+                      </p>
+                      {message.replyTo && !message.deleted && (
+                        <div className="mb-1 border-l-2 border-current pl-2 text-xs opacity-80">
+                          {quoted && <span className="font-semibold">{quoted.sender}: </span>}
+                          {excerpt(quoted)}
+                        </div>
+                      )}
+                      {message.deleted ? (
+                        <p className="text-sm italic opacity-70">Message deleted</p>
+                      ) : (
+                        <p className="text-sm break-words">{message.text}</p>
+                      )}
+                    </div>
+                    {message.reactions && Object.keys(message.reactions).length > 0 && (
+                      <div className="mt-1 flex flex-wrap gap-1">
+                        {CHAT_REACTIONS.filter((emoji) => message.reactions?.[emoji]?.length).map((emoji) => {
+                          const users = message.reactions?.[emoji] ?? [];
+                          const reacted = users.includes(selfId);
+                          return (
+                            <Button
+                              key={emoji}
+                              size="sm"
+                              variant={reacted ? 'secondary' : 'outline'}
+                              className="h-6 px-2 text-xs"
+                              disabled={!actionable}
+                              onClick={() => onReact(message, emoji, !reacted)}
+                            >
+                              {emoji} {users.length}
+                            </Button>
+                          );
+                        })}
+                      </div>
+                    )}
+                    <div className="mt-1 flex items-center gap-1">
+                      <span className="text-xs text-muted-foreground">
+                        {new Date(message.timestamp).toLocaleTimeString()}
+                        {message.editedAt && !message.deleted && ' · edited'}
+                      </span>
+                      {actionable && (
+                        <div className="flex opacity-0 transition-opacity group-hover:opacity-100 focus-within:opacity-100">
+                          <Popover>
+                            <PopoverTrigger asChild>
+                              <Button size="icon" variant="ghost" className="h-6 w-6" title="React">
+                                <SmilePlus className="h-3 w-3" />
+                              </Button>
+                            </PopoverTrigger>
+                            <PopoverContent className="flex w-auto gap-1 p-1">
+                              {CHAT_REACTIONS.map((emoji) => (
+                                <Button
+                                  key={emoji}
+                                  size="icon"
+                                  variant="ghost"
+                                  className="h-8 w-8"
+                                  onClick={() => onReact(message, emoji, !message.reactions?.[emoji]?.includes(selfId))}
+                                >
+                                  {emoji}
+                                </Button>
+                              ))}
+                            </PopoverContent>
+                          </Popover>
+                          <Button size="icon" variant="ghost" className="h-6 w-6" title="Reply" onClick={() => startReply(message)}>
+                            <Reply className="h-3 w-3" />
+                          </Button>
+                          {canChangeMessage('edit', message, selfId, isHost) && (
+                            <Button size="icon" variant="ghost" className="h-6 w-6" title="Edit" onClick={() => startEdit(message)}>
+                              <Pencil className="h-3 w-3" />
+                            </Button>
+                          )}
+                          {canChangeMessage('delete', message, selfId, isHost) && (
+                            <Button size="icon" variant="ghost" className="h-6 w-6" title="Delete" onClick={() => onDelete(message)}>
+                              <Trash2 className="h-3 w-3" />
+                            </Button>
+                          )}
+                        </div>
+                      )}
+                    </div>
                   </div>
-                  <span className="text-xs text-muted-foreground mt-1">
-                    {new Date(message.timestamp).toLocaleTimeString()}
-                  </span>
-                </div>
-              ))
+                );
+              })
             )}
           </div>
         </ScrollArea>
+        {(replyingTo || editing) && (
+          <div className="flex items-center justify-between gap-2 rounded-md border px-3 py-1 text-xs text-muted-foreground">
+            <span className="truncate">
+              {editing ? 'Editing your message' : `Replying to ${replyingTo?.sender}: ${excerpt(replyingTo ?? undefined)}`}
+            </span>
+            <Button size="icon" variant="ghost" className="h-6 w-6" title="Cancel" onClick={cancelCompose}>
+              <X className="h-3 w-3" />
+            </Button>
+          </div>
+        )}
         <div className="flex gap-2">
           <Input
-            placeholder="Type a message..."
+            placeholder={disabledReason ?? 'Type a message...'}
             value={inputText}
             onChange={(e) => setInputText(e.target.value)}
             onKeyPress={handleKeyPress}
+            onKeyDown={(e) => e.key === 'Escape' && cancelCompose()}
+            disabled={!!disabledReason}
             className="flex-1"
           />
-          <Button onClick={handleSend} size="icon">
+          <Button onClick={handleSend} size="icon" disabled={!!disabledReason}>
             <Send className="h-4 w-4" />
           </Button>
         </div>
       </CardContent>
     </Card>
   );
-}
\ No newline at end of file
+}
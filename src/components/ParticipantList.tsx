@@ -0,0 +1,62 @@
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Ban, MessageSquare, MessageSquareOff, UserX, Users } from 'lucide-react';
+import type { ModerationAction } from '@/lib/signaling';
+
+interface ParticipantListProps {
+  viewers: string[];
+  // Display names by userId, for viewers that chose one
+  names: ReadonlyMap<string, string | undefined>;
+  // Viewers whose chat the server drops
+  muted: Set<string>;
+  onModerate: (userId: string, action: ModerationAction) => void;
+}
+
+// Host view of who is watching, with per-viewer moderation. Kicked viewers may rejoin; banned
+// ones are kept out for as long as the room lives.
+export default function ParticipantList({ viewers, names, muted, onModerate }: ParticipantListProps) {
+  return (
+    <Card>
+      <CardHeader className="py-3">
+        <CardTitle className="flex items-center text-base">
+          <Users className="h-4 w-4 mr-2" />
+          Participants
+        </CardTitle>
+        <CardDescription>
+          {viewers.length === 0 ? 'Nobody is watching yet' : 'Remove viewers or mute their chat'}
+        </CardDescription>
+      </CardHeader>
+      {viewers.length > 0 && (
+        <CardContent className="space-y-2">
+          {viewers.map((userId) => {
+            const isMuted = muted.has(userId);
+            return (
+              <div key={userId} className="flex flex-wrap items-center justify-between gap-2 rounded-md border px-3 py-2">
+                <div className="flex items-center gap-2">
+                  <span className="text-sm font-medium">{names.get(userId) ?? 'Viewer'}</span>
+                  <span className="font-mono text-xs text-muted-foreground">{userId}</span>
+                  {isMuted && <Badge variant="outline">Muted</Badge>}
+                </div>
+                <div className="flex gap-2">
+                  <Button size="sm" variant="outline" onClick={() => onModerate(userId, isMuted ? 'unmute' : 'mute')}>
+                    {isMuted ? <MessageSquare className="h-4 w-4 mr-1" /> : <MessageSquareOff className="h-4 w-4 mr-1" />}
+                    {isMuted ? 'Unmute' : 'Mute'}
+                  </Button>
+                  <Button size="sm" variant="outline" onClick={() => onModerate(userId, 'kick')}>
+                    <UserX className="h-4 w-4 mr-1" />
+                    Kick
+                  </Button>
+                  <Button size="sm" variant="destructive" onClick={() => onModerate(userId, 'ban')}>
+                    <Ban className="h-4 w-4 mr-1" />
+                    Ban
+                  </Button>
+                </div>
+              </div>
+            );
+          })}
+        </CardContent>
+      )}
+    </Card>
+  );
+}
@@ -0,0 +1,68 @@
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Monitor, Network, User } from 'lucide-react';
+import type { TreeNode } from '@/lib/signaling';
+
+interface RelayTreeViewProps {
+  nodes: TreeNode[];
+  // Root of the tree (this host)
+  hostId: string;
+}
+
+function Branch({ node, byParent, isHost }: { node: TreeNode; byParent: Map<string, TreeNode[]>; isHost: boolean }) {
+  const children = byParent.get(node.userId) ?? [];
+  return (
+    <li>
+      <div className="flex items-center gap-2 py-1">
+        {isHost ? <Monitor className="h-4 w-4" /> : <User className="h-4 w-4 text-muted-foreground" />}
+        <span className="font-mono text-xs">{isHost ? 'You (host)' : node.userId}</span>
+        {!isHost && node.capacity > 0 && (
+          <Badge variant="outline">
+            relay {children.length}/{node.capacity}
+          </Badge>
+        )}
+        {node.uplinkKbps !== undefined && (
+          <span className="text-xs text-muted-foreground">{Math.round(node.uplinkKbps)} kbps up</span>
+        )}
+      </div>
+      {children.length > 0 && (
+        <ul className="ml-2 border-l pl-4">
+          {children.map((child) => (
+            <Branch key={child.userId} node={child} byParent={byParent} isHost={false} />
+          ))}
+        </ul>
+      )}
+    </li>
+  );
+}
+
+// Who forwards the stream to whom in a tree room, as the server last placed it
+export default function RelayTreeView({ nodes, hostId }: RelayTreeViewProps) {
+  const byParent = new Map<string, TreeNode[]>();
+  nodes.forEach((node) => {
+    if (!node.parentId) return;
+    byParent.set(node.parentId, [...(byParent.get(node.parentId) ?? []), node]);
+  });
+  const root = nodes.find((node) => node.userId === hostId);
+
+  return (
+    <Card>
+      <CardHeader className="py-3">
+        <CardTitle className="flex items-center text-base">
+          <Network className="h-4 w-4 mr-2" />
+          Relay Tree
+        </CardTitle>
+        <CardDescription>Viewers with spare upload bandwidth forward the stream to others</CardDescription>
+      </CardHeader>
+      <CardContent>
+        {root ? (
+          <ul>
+            <Branch node={root} byParent={byParent} isHost />
+          </ul>
+        ) : (
+          <p className="text-sm text-muted-foreground">No viewers yet</p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,88 @@
+import { useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Check, DoorOpen, Lock, X } from 'lucide-react';
+import type { Admission } from '@/lib/signaling';
+
+interface RoomAccessPanelProps {
+  // Passcode currently enforced by the server ('' for none)
+  passcode: string;
+  admission: Admission;
+  onChange: (passcode: string, admission: Admission) => void;
+  // Viewers waiting for approval
+  knocks: { userId: string; name?: string }[];
+  onAdmit: (userId: string, admit: boolean) => void;
+}
+
+// Host controls for who may join: a passcode and/or approving each viewer
+export default function RoomAccessPanel({ passcode, admission, onChange, knocks, onAdmit }: RoomAccessPanelProps) {
+  const [draft, setDraft] = useState(passcode);
+
+  return (
+    <Card>
+      <CardHeader className="py-3">
+        <CardTitle className="flex items-center text-base">
+          <Lock className="h-4 w-4 mr-2" />
+          Room Access
+        </CardTitle>
+        <CardDescription>
+          {passcode ? 'Viewers need the passcode' : 'Anyone with the link can join'}
+          {admission === 'knock' && ', and you approve each one'}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex flex-wrap items-center gap-3">
+          <Label htmlFor="room-passcode">Passcode</Label>
+          <Input
+            id="room-passcode"
+            className="max-w-48"
+            placeholder="None"
+            value={draft}
+            onChange={(e) => setDraft(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && onChange(draft.trim(), admission)}
+          />
+          <Button variant="outline" onClick={() => onChange(draft.trim(), admission)} disabled={draft.trim() === passcode}>
+            {draft.trim() ? 'Set Passcode' : 'Remove Passcode'}
+          </Button>
+        </div>
+        <div className="flex items-center gap-3">
+          <Switch
+            id="room-knock"
+            checked={admission === 'knock'}
+            onCheckedChange={(checked) => onChange(passcode, checked ? 'knock' : 'open')}
+          />
+          <Label htmlFor="room-knock">Approve viewers before they join</Label>
+        </div>
+        {knocks.length > 0 && (
+          <div className="space-y-2">
+            <p className="flex items-center text-sm font-medium">
+              <DoorOpen className="h-4 w-4 mr-2" />
+              Waiting to join
+            </p>
+            {knocks.map(({ userId, name }) => (
+              <div key={userId} className="flex items-center justify-between gap-2 rounded-md border px-3 py-2">
+                <div className="flex items-center gap-2">
+                  <span className="text-sm font-medium">{name ?? 'Viewer'}</span>
+                  <span className="font-mono text-xs text-muted-foreground">{userId}</span>
+                </div>
+                <div className="flex gap-2">
+                  <Button size="sm" onClick={() => onAdmit(userId, true)}>
+                    <Check className="h-4 w-4 mr-1" />
+                    Admit
+                  </Button>
+                  <Button size="sm" variant="outline" onClick={() => onAdmit(userId, false)}>
+                    <X className="h-4 w-4 mr-1" />
+                    Deny
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
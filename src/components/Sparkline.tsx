@@ -0,0 +1,33 @@
+import { cn } from '@/lib/utils';
+
+interface SparklineProps {
+  values: (number | null)[];
+  width?: number;
+  height?: number;
+  className?: string;
+}
+
+// Tiny inline trend line; gaps (null) are skipped
+export default function Sparkline({ values, width = 80, height = 20, className }: SparklineProps) {
+  const points = values
+    .map((value, i) => ({ value, i }))
+    .filter((p): p is { value: number; i: number } => p.value !== null);
+
+  if (points.length < 2) {
+    return <svg width={width} height={height} className={className} />;
+  }
+
+  const max = Math.max(...points.map((p) => p.value));
+  const min = Math.min(...points.map((p) => p.value));
+  const range = max - min || 1;
+  const step = width / Math.max(values.length - 1, 1);
+  const path = points
+    .map((p) => `${(p.i * step).toFixed(1)},${(height - 1 - ((p.value - min) / range) * (height - 2)).toFixed(1)}`)
+    .join(' ');
+
+  return (
+    <svg width={width} height={height} className={cn('text-primary', className)}>
+      <polyline points={path} fill="none" stroke="currentColor" strokeWidth={1.5} />
+    </svg>
+  );
+}
@@ -0,0 +1,234 @@
+import { useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Activity, ChevronDown } from 'lucide-react';
+import Sparkline from '@/components/Sparkline';
+import type { CandidateType, StatsHistory, StatsSample } from '@/lib/stats';
+import { QUALITY_LEVELS, type QualitySetting, type ViewerQuality } from '@/lib/adaptive';
+import { formatLatency } from '@/lib/latency';
+import type { ConnectionMetrics } from '@/lib/webrtc';
+
+interface StatsPanelProps {
+  history: StatsHistory;
+  // 'host' shows one row per viewer; 'viewer' shows the incoming link (from the host, SFU or relay)
+  variant: 'host' | 'viewer';
+  // Host only: per-viewer quality with a manual override
+  quality?: ReadonlyMap<string, ViewerQuality>;
+  onQualityChange?: (peerId: string, setting: QualitySetting) => void;
+  // Host only: glass-to-glass latency reported by each viewer, including those reached via the SFU or relays
+  latency?: ReadonlyMap<string, number>;
+  // How setting up our peer connections has gone so far
+  connections?: ConnectionMetrics;
+}
+
+const PATH_LABELS: Record<CandidateType, string> = {
+  host: 'Direct (host)',
+  srflx: 'Direct (srflx)',
+  prflx: 'Direct (prflx)',
+  relay: 'TURN relay',
+};
+
+const fmt = (value: number | null, digits = 0, unit = '') =>
+  value === null ? '—' : `${value.toFixed(digits)}${unit}`;
+
+const resolution = (sample?: StatsSample) =>
+  sample?.width && sample?.height ? `${sample.width}×${sample.height}` : '—';
+
+const path = (sample?: StatsSample) =>
+  sample?.candidateType ? PATH_LABELS[sample.candidateType] : '—';
+
+function Metric({ label, value, trend }: { label: string; value: string; trend?: (number | null)[] }) {
+  return (
+    <div className="rounded-md border p-3">
+      <p className="text-xs text-muted-foreground">{label}</p>
+      <p className="text-lg font-semibold">{value}</p>
+      {trend && <Sparkline values={trend} width={120} />}
+    </div>
+  );
+}
+
+const capitalize = (value: string) => value.charAt(0).toUpperCase() + value.slice(1);
+
+// Candidates that arrived before their peer or its remote description, and would have been lost
+const earlyCandidates = (m: ConnectionMetrics) => m.candidatesBuffered + m.orphansAdopted;
+
+export default function StatsPanel({ history, variant, quality, onQualityChange, latency, connections }: StatsPanelProps) {
+  const [open, setOpen] = useState(false);
+  const peers = Array.from(history.entries());
+  // A relaying viewer also has outgoing links; the panel describes the one it watches
+  const incoming = peers.filter(([, samples]) => samples[samples.length - 1]?.direction !== 'outbound');
+
+  return (
+    <Collapsible open={open} onOpenChange={setOpen}>
+      <Card>
+        <CardHeader className="py-3">
+          <CollapsibleTrigger asChild>
+            <Button variant="ghost" className="w-full justify-between px-0 hover:bg-transparent">
+              <CardTitle className="flex items-center text-base">
+                <Activity className="h-4 w-4 mr-2" />
+                Connection Stats
+              </CardTitle>
+              <ChevronDown className={`h-4 w-4 transition-transform ${open ? 'rotate-180' : ''}`} />
+            </Button>
+          </CollapsibleTrigger>
+        </CardHeader>
+        <CollapsibleContent>
+          <CardContent>
+            {peers.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No active connections</p>
+            ) : variant === 'viewer' ? (
+              incoming.slice(0, 1).map(([peerId, samples]) => {
+                const latest = samples[samples.length - 1];
+                return (
+                  <div key={peerId} className="grid grid-cols-2 md:grid-cols-4 gap-3">
+                    <Metric
+                      label="Bitrate"
+                      value={fmt(latest?.bitrateKbps ?? null, 0, ' kbps')}
+                      trend={samples.map((s) => s.bitrateKbps)}
+                    />
+                    <Metric
+                      label="Frame rate"
+                      value={fmt(latest?.framesPerSecond ?? null, 0, ' fps')}
+                      trend={samples.map((s) => s.framesPerSecond)}
+                    />
+                    <Metric label="Resolution" value={resolution(latest)} />
+                    <Metric
+                      label="Packet loss"
+                      value={fmt(latest?.lossPercent ?? null, 1, '%')}
+                      trend={samples.map((s) => s.lossPercent)}
+                    />
+                    <Metric
+                      label="Jitter"
+                      value={fmt(latest?.jitterMs ?? null, 0, ' ms')}
+                      trend={samples.map((s) => s.jitterMs)}
+                    />
+                    <Metric
+                      label="Round trip"
+                      value={fmt(latest?.rttMs ?? null, 0, ' ms')}
+                      trend={samples.map((s) => s.rttMs)}
+                    />
+                    <Metric
+                      label="Jitter buffer"
+                      value={fmt(latest?.jitterBufferMs ?? null, 0, ' ms')}
+                      trend={samples.map((s) => s.jitterBufferMs)}
+                    />
+                    <Metric label="Packets lost" value={fmt(latest?.packetsLost ?? null)} />
+                    <Metric label="Path" value={path(latest)} />
+                  </div>
+                );
+              })
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Viewer</TableHead>
+                    <TableHead>Bitrate</TableHead>
+                    <TableHead>FPS</TableHead>
+                    <TableHead>Resolution</TableHead>
+                    <TableHead>Loss</TableHead>
+                    <TableHead>Jitter</TableHead>
+                    <TableHead>RTT</TableHead>
+                    <TableHead>Path</TableHead>
+                    {onQualityChange && <TableHead>Quality</TableHead>}
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {peers.map(([peerId, samples]) => {
+                    const latest = samples[samples.length - 1];
+                    return (
+                      <TableRow key={peerId}>
+                        <TableCell className="font-mono text-xs">{peerId}</TableCell>
+                        <TableCell>
+                          <div className="flex items-center gap-2">
+                            {fmt(latest?.bitrateKbps ?? null, 0, ' kbps')}
+                            <Sparkline values={samples.map((s) => s.bitrateKbps)} />
+                          </div>
+                        </TableCell>
+                        <TableCell>
+                          <div className="flex items-center gap-2">
+                            {fmt(latest?.framesPerSecond ?? null)}
+                            <Sparkline values={samples.map((s) => s.framesPerSecond)} width={50} />
+                          </div>
+                        </TableCell>
+                        <TableCell>{resolution(latest)}</TableCell>
+                        <TableCell>{fmt(latest?.lossPercent ?? null, 1, '%')}</TableCell>
+                        <TableCell>{fmt(latest?.jitterMs ?? null, 0, ' ms')}</TableCell>
+                        <TableCell>
+                          <div className="flex items-center gap-2">
+                            {fmt(latest?.rttMs ?? null, 0, ' ms')}
+                            <Sparkline values={samples.map((s) => s.rttMs)} width={50} />
+                          </div>
+                        </TableCell>
+                        <TableCell>{path(latest)}</TableCell>
+                        {onQualityChange && (
+                          <TableCell>
+                            <Select
+                              value={quality?.get(peerId)?.setting ?? 'auto'}
+                              onValueChange={(value) => onQualityChange(peerId, value as QualitySetting)}
+                            >
+                              <SelectTrigger className="w-40">
+                                <SelectValue />
+                              </SelectTrigger>
+                              <SelectContent>
+                                <SelectItem value="auto">
+                                  Auto ({capitalize(quality?.get(peerId)?.level ?? 'high')})
+                                </SelectItem>
+                                {QUALITY_LEVELS.map((level) => (
+                                  <SelectItem key={level} value={level}>
+                                    {capitalize(level)}
+                                  </SelectItem>
+                                ))}
+                              </SelectContent>
+                            </Select>
+                          </TableCell>
+                        )}
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+            )}
+            {connections && connections.connectionsAttempted > 0 && (
+              <div className="mt-4">
+                <p className="text-xs text-muted-foreground mb-2">Connection setup</p>
+                <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+                  <Metric
+                    label="Connected"
+                    value={`${connections.connectionsSucceeded} of ${connections.connectionsAttempted}`}
+                  />
+                  <Metric label="Failed" value={String(connections.connectionsFailed)} />
+                  <Metric label="Time to connect" value={fmt(connections.averageTimeToConnectMs, 0, ' ms')} />
+                  <Metric
+                    label="ICE candidates"
+                    value={`${connections.candidatesApplied} applied, ${earlyCandidates(connections)} early`}
+                  />
+                  <Metric
+                    label="Candidates dropped"
+                    value={String(connections.candidatesFailed + connections.orphansExpired)}
+                  />
+                </div>
+              </div>
+            )}
+            {variant === 'host' && latency && latency.size > 0 && (
+              <div className="mt-4">
+                <p className="text-xs text-muted-foreground mb-2">Glass-to-glass latency</p>
+                <div className="flex flex-wrap gap-2">
+                  {Array.from(latency.entries()).map(([viewerId, ms]) => (
+                    <Badge key={viewerId} variant="outline">
+                      <span className="font-mono mr-1">{viewerId}</span>
+                      {formatLatency(ms)}
+                    </Badge>
+                  ))}
+                </div>
+              </div>
+            )}
+          </CardContent>
+        </CollapsibleContent>
+      </Card>
+    </Collapsible>
+  );
+}
@@ -0,0 +1,60 @@
+import { useEffect, useRef, useState } from 'react';
+import { Card } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Play } from 'lucide-react';
+import { PlaybackFollower } from '@/lib/playback';
+import type { PlaybackState } from '@/lib/signaling';
+
+interface SyncedVideoProps {
+  // The same media the host is playing (URL, or the viewer's own copy of the file)
+  src: string;
+  state: PlaybackState | null;
+}
+
+// Viewer-side watch-party player: no controls of its own, it follows the host
+export default function SyncedVideo({ src, state }: SyncedVideoProps) {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const followerRef = useRef<PlaybackFollower | null>(null);
+  const [blocked, setBlocked] = useState(false);
+
+  useEffect(() => {
+    if (!videoRef.current) return;
+    const follower = new PlaybackFollower(videoRef.current, () => setBlocked(true));
+    followerRef.current = follower;
+    follower.start();
+    return () => {
+      follower.stop();
+      followerRef.current = null;
+    };
+  }, [src]);
+
+  useEffect(() => {
+    if (state) followerRef.current?.update(state);
+  }, [state, src]);
+
+  // Autoplay with sound needs a click; after that the follower keeps playing on its own
+  const handleUnblock = () => {
+    setBlocked(false);
+    void videoRef.current?.play().catch((error) => console.warn('Playback still blocked:', error));
+  };
+
+  return (
+    <Card className="relative overflow-hidden bg-black">
+      {blocked && (
+        <div className="absolute inset-0 flex items-center justify-center bg-black/60 z-10">
+          <Button size="lg" onClick={handleUnblock}>
+            <Play className="h-4 w-4 mr-2" />
+            Join playback
+          </Button>
+        </div>
+      )}
+      <video
+        ref={videoRef}
+        src={src}
+        playsInline
+        className="w-full h-full object-contain"
+        style={{ minHeight: '400px' }}
+      />
+    </Card>
+  );
+}
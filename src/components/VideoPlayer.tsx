@@ -2,13 +2,17 @@ import { useEffect, useRef } from 'react';
 import { Card } from '@/components/ui/card';
 import { Maximize2, Loader2 } from 'lucide-react';
 import { Button } from '@/components/ui/button';
+import type { RenderSize } from '@/lib/simulcast';
 
 interface VideoPlayerProps {
   stream: MediaStream | null;
   isLoading?: boolean;
+  isReconnecting?: boolean;
+  // Called when the rendered size changes or fullscreen is entered or left
+  onRenderSizeChange?: (size: RenderSize) => void;
 }
 
-export default function VideoPlayer({ stream, isLoading }: VideoPlayerProps) {
+export default function VideoPlayer({ stream, isLoading, isReconnecting, onRenderSizeChange }: VideoPlayerProps) {
   const videoRef = useRef<HTMLVideoElement>(null);
 
   useEffect(() => {
@@ -17,6 +21,27 @@ export default function VideoPlayer({ stream, isLoading }: VideoPlayerProps) {
     }
   }, [stream]);
 
+  useEffect(() => {
+    const video = videoRef.current;
+    if (!video || !onRenderSizeChange) return;
+
+    const report = () => {
+      const fullscreen = document.fullscreenElement === video;
+      onRenderSizeChange({
+        width: fullscreen ? window.screen.width : video.clientWidth,
+        height: fullscreen ? window.screen.height : video.clientHeight,
+        fullscreen,
+      });
+    };
+    const observer = new ResizeObserver(report);
+    observer.observe(video);
+    document.addEventListener('fullscreenchange', report);
+    return () => {
+      observer.disconnect();
+      document.removeEventListener('fullscreenchange', report);
+    };
+  }, [onRenderSizeChange]);
+
   const handleFullscreen = () => {
     if (videoRef.current) {
       if (videoRef.current.requestFullscreen) {
@@ -35,6 +60,14 @@ export default function VideoPlayer({ stream, isLoading }: VideoPlayerProps) {
           </div>
         </div>
       )}
+      {isReconnecting && stream && (
+        <div className="absolute inset-0 flex items-center justify-center bg-black/60 z-10">
+          <div className="text-center space-y-4">
+            <Loader2 className="h-12 w-12 animate-spin text-white mx-auto" />
+            <p className="text-white">Reconnecting…</p>
+          </div>
+        </div>
+      )}
       {!stream && !isLoading && (
         <div className="absolute inset-0 flex items-center justify-center bg-black/80">
           <p className="text-white text-lg">No stream available</p>
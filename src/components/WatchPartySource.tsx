@@ -0,0 +1,63 @@
+import { useRef, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Film, FileVideo, Square } from 'lucide-react';
+
+interface WatchPartySourceProps {
+  active: boolean;
+  onPlayUrl: (url: string) => void;
+  onPlayFile: (file: File) => void;
+  onEnd: () => void;
+}
+
+// Host controls for picking what the watch party plays
+export default function WatchPartySource({ active, onPlayUrl, onPlayFile, onEnd }: WatchPartySourceProps) {
+  const [url, setUrl] = useState('');
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const handlePlayUrl = () => {
+    if (url.trim()) onPlayUrl(url.trim());
+  };
+
+  return (
+    <div className="space-y-2">
+      <Label htmlFor="watch-party-url">Watch party</Label>
+      <div className="flex flex-wrap gap-3">
+        <Input
+          id="watch-party-url"
+          className="max-w-sm"
+          placeholder="https://example.com/movie.mp4"
+          value={url}
+          onChange={(e) => setUrl(e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && handlePlayUrl()}
+        />
+        <Button onClick={handlePlayUrl} variant="outline" disabled={!url.trim()}>
+          <Film className="h-4 w-4 mr-2" />
+          Play URL
+        </Button>
+        <Button onClick={() => fileInputRef.current?.click()} variant="outline">
+          <FileVideo className="h-4 w-4 mr-2" />
+          Play File
+        </Button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept="video/*"
+          className="hidden"
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            if (file) onPlayFile(file);
+            e.target.value = '';
+          }}
+        />
+        {active && (
+          <Button onClick={onEnd} variant="destructive">
+            <Square className="h-4 w-4 mr-2" />
+            End Watch Party
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,18 @@
+import * as React from 'react';
+import type { AdaptiveQualityController, ViewerQuality } from '@/lib/adaptive';
+
+// Runs the controller while mounted and exposes each viewer's current quality
+export function useAdaptiveQuality(controller: AdaptiveQualityController): ReadonlyMap<string, ViewerQuality> {
+  const [quality, setQuality] = React.useState<ReadonlyMap<string, ViewerQuality>>(() => controller.getQuality());
+
+  React.useEffect(() => {
+    const unsubscribe = controller.subscribe(setQuality);
+    const stop = controller.start();
+    return () => {
+      stop();
+      unsubscribe();
+    };
+  }, [controller]);
+
+  return quality;
+}
@@ -0,0 +1,26 @@
+import * as React from 'react';
+import type { ChatHistoryState, ChatMessage, ChatService } from '@/lib/chat';
+
+// Every message the chat service has for the room, as reactions, edits and deletes change them
+export function useChatMessages(chat: ChatService): ChatMessage[] {
+  const [messages, setMessages] = React.useState<ChatMessage[]>(chat.all);
+
+  React.useEffect(() => {
+    setMessages(chat.all);
+    return chat.subscribe(setMessages);
+  }, [chat]);
+
+  return messages;
+}
+
+// Whether older messages can be paged in from the server's history
+export function useChatHistory(chat: ChatService): ChatHistoryState {
+  const [state, setState] = React.useState<ChatHistoryState>(chat.historyState);
+
+  React.useEffect(() => {
+    setState(chat.historyState);
+    return chat.subscribeHistory(setState);
+  }, [chat]);
+
+  return state;
+}
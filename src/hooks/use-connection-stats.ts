@@ -0,0 +1,11 @@
+import * as React from 'react';
+import type { StatsCollector, StatsHistory } from '@/lib/stats';
+
+// Live per-peer stats history; polling runs only while a component is subscribed
+export function useConnectionStats(collector: StatsCollector): StatsHistory {
+  const [history, setHistory] = React.useState<StatsHistory>(() => collector.getHistory());
+
+  React.useEffect(() => collector.subscribe(setHistory), [collector]);
+
+  return history;
+}
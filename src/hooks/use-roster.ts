@@ -0,0 +1,36 @@
+import * as React from 'react';
+import { signalingService, type Participant, type SignalingMessage } from '@/lib/signaling';
+
+// Everyone in the room: the roster the server sends as we enter, kept current by its presence events
+export function useRoster(): Participant[] {
+  const [roster, setRoster] = React.useState<Participant[]>([]);
+
+  React.useEffect(() => {
+    const handleRoster = (message: SignalingMessage<'roster'>) => {
+      setRoster(message.participants);
+    };
+    const handleJoined = ({ participant }: SignalingMessage<'participant-joined'>) => {
+      // A reconnecting member is announced again
+      setRoster((prev) => [...prev.filter((p) => p.userId !== participant.userId), participant]);
+    };
+    const handleUpdated = ({ participant }: SignalingMessage<'participant-updated'>) => {
+      setRoster((prev) => prev.map((p) => (p.userId === participant.userId ? participant : p)));
+    };
+    const handleLeft = (message: SignalingMessage<'participant-left'>) => {
+      setRoster((prev) => prev.filter((p) => p.userId !== message.userId));
+    };
+
+    signalingService.on('roster', handleRoster);
+    signalingService.on('participant-joined', handleJoined);
+    signalingService.on('participant-updated', handleUpdated);
+    signalingService.on('participant-left', handleLeft);
+    return () => {
+      signalingService.off('roster', handleRoster);
+      signalingService.off('participant-joined', handleJoined);
+      signalingService.off('participant-updated', handleUpdated);
+      signalingService.off('participant-left', handleLeft);
+    };
+  }, []);
+
+  return roster;
+}
@@ -0,0 +1,172 @@
+// Per-viewer adaptive quality on the host: walks each viewer down or up a ladder of
+// encoding limits based on the loss and RTT seen in that viewer's RTCP reports
+import type { StatsCollector, StatsHistory, StatsSample } from './stats';
+import type { EncodingLimits, WebRTCManager } from './webrtc';
+
+export type QualityLevel = 'high' | 'medium' | 'low' | 'minimal';
+
+// 'auto' follows the stats; a level pins that viewer to it
+export type QualitySetting = QualityLevel | 'auto';
+
+export interface ViewerQuality {
+  level: QualityLevel;
+  setting: QualitySetting;
+}
+
+// Best first
+export const QUALITY_LEVELS: QualityLevel[] = ['high', 'medium', 'low', 'minimal'];
+
+export const QUALITY_PRESETS: Record<QualityLevel, EncodingLimits> = {
+  high: { maxBitrate: 2_500_000, scaleResolutionDownBy: 1, maxFramerate: 30 },
+  medium: { maxBitrate: 1_200_000, scaleResolutionDownBy: 1.5, maxFramerate: 24 },
+  low: { maxBitrate: 600_000, scaleResolutionDownBy: 2, maxFramerate: 15 },
+  minimal: { maxBitrate: 250_000, scaleResolutionDownBy: 3, maxFramerate: 10 },
+};
+
+// A sample is congested above these...
+const CONGESTED_LOSS_PERCENT = 5;
+const CONGESTED_RTT_MS = 400;
+// ...and healthy below these
+const HEALTHY_LOSS_PERCENT = 1;
+const HEALTHY_RTT_MS = 200;
+
+// Step down at most this often; step up only after this many healthy samples in a row
+const DOWNGRADE_COOLDOWN_MS = 3000;
+const UPGRADE_AFTER_SAMPLES = 10;
+
+interface ViewerState extends ViewerQuality {
+  healthySamples: number;
+  lastChangeAt: number;
+  // Session of the connection the current level was applied to
+  appliedSession?: number;
+  // Best level the viewer asked for (e.g. its player is small); never send more than this
+  ceiling: QualityLevel;
+}
+
+const worseOf = (a: QualityLevel, b: QualityLevel) =>
+  QUALITY_LEVELS[Math.max(QUALITY_LEVELS.indexOf(a), QUALITY_LEVELS.indexOf(b))];
+
+export function isCongested(sample: StatsSample) {
+  return (sample.lossPercent ?? 0) > CONGESTED_LOSS_PERCENT || (sample.rttMs ?? 0) > CONGESTED_RTT_MS;
+}
+
+export function isHealthy(sample: StatsSample) {
+  return (sample.lossPercent ?? 0) < HEALTHY_LOSS_PERCENT && (sample.rttMs ?? 0) < HEALTHY_RTT_MS;
+}
+
+export class AdaptiveQualityController {
+  private viewers = new Map<string, ViewerState>();
+  private listeners = new Set<(quality: ReadonlyMap<string, ViewerQuality>) => void>();
+
+  constructor(
+    private manager: WebRTCManager,
+    private stats: StatsCollector
+  ) {}
+
+  // Follow the stats collector; returns a function that stops following it
+  start(): () => void {
+    return this.stats.subscribe((history) => void this.update(history));
+  }
+
+  subscribe(listener: (quality: ReadonlyMap<string, ViewerQuality>) => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  getQuality(): ReadonlyMap<string, ViewerQuality> {
+    const quality = new Map<string, ViewerQuality>();
+    this.viewers.forEach(({ level, setting, ceiling }, peerId) =>
+      quality.set(peerId, { level: worseOf(level, ceiling), setting })
+    );
+    return quality;
+  }
+
+  // Manual override from the host UI
+  setQuality(peerId: string, setting: QualitySetting) {
+    const viewer = this.viewers.get(peerId) ?? this.createViewer();
+    viewer.setting = setting;
+    viewer.healthySamples = 0;
+    if (setting !== 'auto') {
+      viewer.level = setting;
+    }
+    viewer.appliedSession = undefined;
+    this.viewers.set(peerId, viewer);
+    void this.apply(peerId, viewer).then(() => this.emit());
+  }
+
+  // Layer request from the viewer itself
+  setCeiling(peerId: string, ceiling: QualityLevel) {
+    const viewer = this.viewers.get(peerId) ?? this.createViewer();
+    if (viewer.ceiling === ceiling && this.viewers.has(peerId)) return;
+    viewer.ceiling = ceiling;
+    viewer.appliedSession = undefined;
+    this.viewers.set(peerId, viewer);
+    void this.apply(peerId, viewer).then(() => this.emit());
+  }
+
+  private createViewer(): ViewerState {
+    return { level: 'high', setting: 'auto', healthySamples: 0, lastChangeAt: Date.now(), ceiling: 'high' };
+  }
+
+  private async update(history: StatsHistory) {
+    const now = Date.now();
+
+    for (const [peerId, samples] of history) {
+      const latest = samples[samples.length - 1];
+      if (!latest) continue;
+
+      let viewer = this.viewers.get(peerId);
+      if (!viewer) {
+        viewer = this.createViewer();
+        this.viewers.set(peerId, viewer);
+      }
+
+      if (viewer.setting === 'auto') {
+        const index = QUALITY_LEVELS.indexOf(viewer.level);
+        if (isCongested(latest)) {
+          viewer.healthySamples = 0;
+          if (index < QUALITY_LEVELS.length - 1 && now - viewer.lastChangeAt >= DOWNGRADE_COOLDOWN_MS) {
+            viewer.level = QUALITY_LEVELS[index + 1];
+            viewer.lastChangeAt = now;
+            viewer.appliedSession = undefined;
+            console.log('Lowering quality for peer:', peerId, viewer.level);
+          }
+        } else if (isHealthy(latest)) {
+          viewer.healthySamples++;
+          if (index > 0 && viewer.healthySamples >= UPGRADE_AFTER_SAMPLES) {
+            viewer.level = QUALITY_LEVELS[index - 1];
+            viewer.lastChangeAt = now;
+            viewer.healthySamples = 0;
+            viewer.appliedSession = undefined;
+            console.log('Raising quality for peer:', peerId, viewer.level);
+          }
+        } else {
+          viewer.healthySamples = 0;
+        }
+      }
+
+      // Also covers rebuilt connections, which start over with default encodings
+      await this.apply(peerId, viewer);
+    }
+
+    for (const peerId of this.viewers.keys()) {
+      if (!history.has(peerId)) this.viewers.delete(peerId);
+    }
+    this.emit();
+  }
+
+  private async apply(peerId: string, viewer: ViewerState) {
+    const session = this.manager.getSession(peerId);
+    if (session === undefined || viewer.appliedSession === session) return;
+    if (await this.manager.setVideoEncoding(peerId, QUALITY_PRESETS[worseOf(viewer.level, viewer.ceiling)])) {
+      viewer.appliedSession = session;
+    }
+  }
+
+  private emit() {
+    const quality = this.getQuality();
+    this.listeners.forEach((listener) => listener(quality));
+  }
+}
@@ -0,0 +1,269 @@
+// Room chat. Every message carries an ID chosen by its author, so a copy that arrives by a second
+// path is recognized and dropped. Members we have an open data channel to get the message
+// directly; the signaling server fans it out to everyone else (and is told whom to skip). A direct
+// copy carries only what the author wrote: the name comes from the server's roster and the time
+// from our receipt, as the server would stamp them. The server also keeps recent history, sent
+// when we enter the room and paged back on request.
+// Reactions, edits and deletes go through the server only, which checks them against its copy
+// and sends them back to everyone, us included; nothing changes until it does.
+import { applyChatEvent, mayChangeChatMessage, type ChatMessageState } from '../../shared/chat-events';
+import { serverTime } from './clock';
+import {
+  generatePeerId,
+  parseChatChannelMessage,
+  signalingService,
+  type ChatChannelMessage,
+  type ChatEvent,
+  type ChatReaction,
+  type ChatRef,
+  type SignalingMessage,
+} from './signaling';
+
+export interface ChatMessage extends ChatMessageState {
+  id: string;
+  // Peer ID of the author; names are not unique, so this decides which messages are ours
+  senderId: string;
+  // Display name of the author
+  sender: string;
+  text: string;
+  // Server clock (see lib/clock), so messages from different peers order correctly
+  timestamp: number;
+  // The message this one answers
+  replyTo?: ChatRef;
+}
+
+// Shown for members without a display name, as for server copies without a username
+const DEFAULT_SENDER = 'Viewer';
+
+export interface ChatHistoryState {
+  // The server has messages older than the ones shown
+  hasOlder: boolean;
+  loadingOlder: boolean;
+}
+
+function fromBroadcast(message: SignalingMessage<'chat-message'>): ChatMessage {
+  return {
+    id: message.id,
+    senderId: message.fromId,
+    sender: message.username || DEFAULT_SENDER,
+    text: message.text,
+    timestamp: message.timestamp,
+    replyTo: message.replyTo,
+    reactions: message.reactions,
+    editedAt: message.editedAt,
+    deleted: message.deleted,
+  };
+}
+
+export function chatRef(message: ChatMessage): ChatRef {
+  return { fromId: message.senderId, id: message.id };
+}
+
+export const messageKey = ({ fromId, id }: ChatRef) => `${fromId}:${id}`;
+
+// Whether we may edit or delete `message` right now; the server decides for real
+export function canChangeMessage(kind: 'edit' | 'delete', message: ChatMessage, selfId: string, isHost: boolean): boolean {
+  if (message.deleted) return false;
+  return mayChangeChatMessage(kind, { authorId: message.senderId, sentAt: message.timestamp }, selfId, isHost, serverTime());
+}
+
+export class ChatService {
+  private roomId: string | null = null;
+  private name = '';
+  // Display names by peer ID, from the server's roster
+  private names = new Map<string, string | undefined>();
+  // Every message shown so far, by senderId:id
+  private messages = new Map<string, ChatMessage>();
+  private listeners = new Set<(messages: ChatMessage[]) => void>();
+  // Members we can reach directly, by peer ID
+  private channels = new Map<string, RTCDataChannel>();
+  // Where the next older page starts, from the last chat-history; null when there is none
+  private cursor: number | null = null;
+  private loadingOlder = false;
+  private historyListeners = new Set<(state: ChatHistoryState) => void>();
+
+  constructor(private readonly selfId: string) {}
+
+  join(roomId: string) {
+    this.roomId = roomId;
+    signalingService.on('chat-message', this.handleSignaling);
+    signalingService.on('chat-event', this.handleEvent);
+    signalingService.on('chat-history', this.handleHistory);
+  }
+
+  leave() {
+    signalingService.off('chat-message', this.handleSignaling);
+    signalingService.off('chat-event', this.handleEvent);
+    signalingService.off('chat-history', this.handleHistory);
+    this.roomId = null;
+    this.messages.clear();
+    this.notify();
+    this.channels.clear();
+    this.cursor = null;
+    this.loadingOlder = false;
+    this.notifyHistory();
+  }
+
+  // Display name our messages carry
+  setName(name: string) {
+    this.name = name;
+  }
+
+  // The room's names as the server has them; direct messages are shown under these
+  setNames(names: Map<string, string | undefined>) {
+    this.names = names;
+  }
+
+  // A data channel to another member; replaces an older one to the same peer
+  addChannel(peerId: string, channel: RTCDataChannel) {
+    this.channels.set(peerId, channel);
+  }
+
+  removeChannel(peerId: string) {
+    this.channels.delete(peerId);
+  }
+
+  get all(): ChatMessage[] {
+    return [...this.messages.values()];
+  }
+
+  // The message `ref` points at, if we have it
+  find(ref: ChatRef): ChatMessage | undefined {
+    return this.messages.get(messageKey(ref));
+  }
+
+  subscribe(listener: (messages: ChatMessage[]) => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  subscribeHistory(listener: (state: ChatHistoryState) => void): () => void {
+    this.historyListeners.add(listener);
+    return () => {
+      this.historyListeners.delete(listener);
+    };
+  }
+
+  get historyState(): ChatHistoryState {
+    return { hasOlder: this.cursor !== null, loadingOlder: this.loadingOlder };
+  }
+
+  // Fetch the page before the oldest message the server has sent us
+  loadOlder() {
+    if (!this.roomId || this.cursor === null || this.loadingOlder) return;
+    this.loadingOlder = true;
+    this.notifyHistory();
+    signalingService.requestChatHistory(this.roomId, this.cursor);
+  }
+
+  send(text: string, replyTo?: ChatRef) {
+    if (!this.roomId) return;
+    const message: ChatMessage = {
+      id: generatePeerId('msg'),
+      senderId: this.selfId,
+      sender: this.name,
+      text,
+      timestamp: serverTime(),
+      replyTo,
+    };
+    this.deliver(message);
+
+    const payload = JSON.stringify({
+      type: 'chat',
+      message: { id: message.id, text, replyTo },
+    } satisfies ChatChannelMessage);
+    const direct: string[] = [];
+    this.channels.forEach((channel, peerId) => {
+      if (channel.readyState !== 'open') return;
+      try {
+        channel.send(payload);
+        direct.push(peerId);
+      } catch (e) {
+        console.warn('Chat over data channel failed:', e);
+      }
+    });
+    // Always through the server as well: it reaches everyone else and enforces mutes
+    signalingService.sendChatMessage(this.roomId, this.selfId, this.name, text, message.id, direct, replyTo);
+  }
+
+  // Add or withdraw our reaction
+  react(message: ChatMessage, emoji: ChatReaction, on: boolean) {
+    this.sendEvent({ kind: 'react', target: chatRef(message), emoji, on });
+  }
+
+  edit(message: ChatMessage, text: string) {
+    this.sendEvent({ kind: 'edit', target: chatRef(message), text });
+  }
+
+  delete(message: ChatMessage) {
+    this.sendEvent({ kind: 'delete', target: chatRef(message) });
+  }
+
+  // Data channel traffic from `peerId`; true when it was a chat message. The channel, not the
+  // message, says who sent it, and the roster what they are called.
+  handleChannelMessage(peerId: string, data: unknown): boolean {
+    if (typeof data !== 'string' || !data.includes('"chat"')) return false;
+    // Peers are no more trusted than the server's clients: anything off-shape is not chat
+    const parsed = parseChatChannelMessage(data);
+    if (!parsed.ok) return false;
+    const { id, text, replyTo } = parsed.message.message;
+    this.deliver({
+      id,
+      senderId: peerId,
+      sender: this.names.get(peerId) || DEFAULT_SENDER,
+      text,
+      timestamp: serverTime(),
+      replyTo,
+    });
+    return true;
+  }
+
+  private sendEvent(event: ChatEvent) {
+    if (!this.roomId) return;
+    signalingService.sendChatEvent(this.roomId, event);
+  }
+
+  private handleSignaling = (message: SignalingMessage<'chat-message'>) => {
+    if (message.roomId !== this.roomId) return;
+    this.deliver(fromBroadcast(message));
+  };
+
+  private handleEvent = (message: SignalingMessage<'chat-event'>) => {
+    if (message.roomId !== this.roomId) return;
+    const key = messageKey(message.event.target);
+    const target = this.messages.get(key);
+    if (!target) return;
+    this.messages.set(key, applyChatEvent(target, message.event, message.fromId, message.timestamp));
+    this.notify();
+  };
+
+  // The newest page when we enter the room, or the older page we asked for. History is the
+  // server's current state of each message, so it replaces what we have (e.g. after a reconnect).
+  private handleHistory = (message: SignalingMessage<'chat-history'>) => {
+    if (message.roomId !== this.roomId) return;
+    message.messages.forEach((m) => this.messages.set(messageKey(m), fromBroadcast(m)));
+    this.notify();
+    this.cursor = message.cursor;
+    this.loadingOlder = false;
+    this.notifyHistory();
+  };
+
+  private notifyHistory() {
+    const state = this.historyState;
+    this.historyListeners.forEach((listener) => listener(state));
+  }
+
+  private notify() {
+    const messages = this.all;
+    this.listeners.forEach((listener) => listener(messages));
+  }
+
+  private deliver(message: ChatMessage) {
+    const key = messageKey(chatRef(message));
+    if (this.messages.has(key)) return;
+    this.messages.set(key, message);
+    this.notify();
+  }
+}
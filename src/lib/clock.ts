@@ -0,0 +1,169 @@
+// Clock synchronization: NTP-style estimates of how far the signaling server's and the host's
+// clocks are from our own Date.now(). The server is measured with signaling ping/pong, the host
+// over the WebRTC data channel.
+
+// Keep this many recent round trips per clock
+const MAX_SAMPLES = 8;
+// Data channel: a quick burst to converge, then a slow refresh
+const CHANNEL_BURST = 5;
+const CHANNEL_BURST_INTERVAL_MS = 500;
+const CHANNEL_REFRESH_MS = 15000;
+
+// Clock traffic on the data channel, next to chat messages (which have no `type`). A pong carries
+// the responder's host time, its own wall clock (which stamps the media it sends) and how far
+// that media already lags the host.
+type ClockChannelMessage =
+  | { type: 'clock-ping'; t0: number }
+  | { type: 'clock-pong'; t0: number; time: number; wall: number; delay: number };
+
+// Offset of one remote clock from ours, from request/response round trips
+export class ClockEstimator {
+  private samples: { offset: number; rtt: number }[] = [];
+
+  // sentAt and receivedAt are our Date.now() around the request; remoteTime is the remote's reply
+  addSample(sentAt: number, remoteTime: number, receivedAt = Date.now()) {
+    const rtt = receivedAt - sentAt;
+    if (rtt < 0) return;
+    // Assume the remote read its clock halfway through the round trip
+    this.samples.push({ offset: remoteTime - (sentAt + receivedAt) / 2, rtt });
+    if (this.samples.length > MAX_SAMPLES) this.samples.shift();
+  }
+
+  isSynced(): boolean {
+    return this.samples.length > 0;
+  }
+
+  // The fastest round trip leaves the least room for asymmetric delay, so it wins
+  private best() {
+    return this.samples.reduce<{ offset: number; rtt: number } | null>(
+      (best, sample) => (!best || sample.rtt < best.rtt ? sample : best),
+      null
+    );
+  }
+
+  // Milliseconds to add to Date.now() to read the remote clock
+  getOffset(): number {
+    return this.best()?.offset ?? 0;
+  }
+
+  getRtt(): number | null {
+    return this.best()?.rtt ?? null;
+  }
+
+  now(): number {
+    return Date.now() + this.getOffset();
+  }
+
+  reset() {
+    this.samples = [];
+  }
+}
+
+class ClockSync {
+  readonly server = new ClockEstimator();
+  readonly host = new ClockEstimator();
+  // Wall clock of whoever sends us media over the data channel (the host, or our relay parent)
+  readonly upstream = new ClockEstimator();
+  // How far the media our upstream sends lags the host, as it last told us
+  private upstreamDelay = 0;
+  // How far the media we forward lags the host (relays)
+  private mediaDelay = 0;
+  private isHost = false;
+
+  setIsHost(isHost: boolean) {
+    this.isHost = isHost;
+  }
+
+  setMediaDelay(ms: number) {
+    this.mediaDelay = ms;
+  }
+
+  getUpstreamDelay(): number {
+    return this.upstreamDelay;
+  }
+
+  serverTime(): number {
+    return this.server.now();
+  }
+
+  // Until the host has been measured (or without a data channel to it, as in SFU rooms) the
+  // server clock is the best shared reference there is
+  hostTime(): number {
+    if (this.isHost) return Date.now();
+    return this.host.isSynced() ? this.host.now() : this.serverTime();
+  }
+
+  // Viewer: measure the host clock over a data channel to the host, or to our relay parent
+  // (which answers with its own estimate of host time). Returns a function that stops it.
+  syncOverChannel(channel: RTCDataChannel): () => void {
+    this.host.reset();
+    this.upstream.reset();
+    this.upstreamDelay = 0;
+    let sent = 0;
+    let timer: ReturnType<typeof setTimeout> | null = null;
+
+    const ping = () => {
+      if (channel.readyState === 'open') {
+        try {
+          channel.send(JSON.stringify({ type: 'clock-ping', t0: Date.now() } satisfies ClockChannelMessage));
+        } catch (e) {
+          console.warn('Clock ping failed:', e);
+        }
+      }
+      sent++;
+      timer = setTimeout(ping, sent < CHANNEL_BURST ? CHANNEL_BURST_INTERVAL_MS : CHANNEL_REFRESH_MS);
+    };
+    ping();
+
+    return () => {
+      if (timer) clearTimeout(timer);
+      timer = null;
+    };
+  }
+
+  // Answers clock pings and records clock pongs; true when `data` was clock traffic
+  handleChannelMessage(channel: RTCDataChannel, data: unknown): boolean {
+    if (typeof data !== 'string' || !data.includes('"clock-')) return false;
+    let message: ClockChannelMessage;
+    try {
+      message = JSON.parse(data);
+    } catch {
+      return false;
+    }
+
+    if (message.type === 'clock-ping') {
+      if (channel.readyState === 'open') {
+        channel.send(
+          JSON.stringify({
+            type: 'clock-pong',
+            t0: message.t0,
+            time: this.hostTime(),
+            wall: Date.now(),
+            delay: this.isHost ? 0 : this.mediaDelay,
+          } satisfies ClockChannelMessage)
+        );
+      }
+      return true;
+    }
+    if (message.type === 'clock-pong') {
+      const receivedAt = Date.now();
+      this.host.addSample(message.t0, message.time, receivedAt);
+      this.upstream.addSample(message.t0, message.wall, receivedAt);
+      this.upstreamDelay = message.delay;
+      return true;
+    }
+    return false;
+  }
+}
+
+export const clockSync = new ClockSync();
+
+// Now, on the signaling server's clock
+export function serverTime(): number {
+  return clockSync.serverTime();
+}
+
+// Now, on the host's clock
+export function hostTime(): number {
+  return clockSync.hostTime();
+}
@@ -0,0 +1,110 @@
+// Sharing modes: encoder trade-offs for moving pictures (video, games) versus
+// mostly static detail (slides, code), plus an auto mode that watches the screen
+export type ContentType = 'motion' | 'detail';
+
+export type SharingMode = ContentType | 'auto';
+
+export interface ContentProfile {
+  // MediaStreamTrack.contentHint
+  contentHint: 'motion' | 'detail' | 'text';
+  degradationPreference: RTCDegradationPreference;
+  frameRate: { ideal: number; max: number };
+  // Codec mime types in order of preference; anything unlisted keeps its place after these
+  codecs: string[];
+}
+
+export const CONTENT_PROFILES: Record<ContentType, ContentProfile> = {
+  motion: {
+    contentHint: 'motion',
+    degradationPreference: 'maintain-framerate',
+    frameRate: { ideal: 30, max: 60 },
+    codecs: ['video/H264', 'video/VP8'],
+  },
+  detail: {
+    contentHint: 'detail',
+    degradationPreference: 'maintain-resolution',
+    frameRate: { ideal: 15, max: 30 },
+    codecs: ['video/AV1', 'video/VP9'],
+  },
+};
+
+// Preferred codecs first, in the order given; the rest keep their original order
+export function sortCodecs(codecs: RTCRtpCodec[], preferred: string[]): RTCRtpCodec[] {
+  const rank = (codec: RTCRtpCodec) => {
+    const index = preferred.findIndex((mime) => mime.toLowerCase() === codec.mimeType.toLowerCase());
+    return index === -1 ? preferred.length : index;
+  };
+  return [...codecs].sort((a, b) => rank(a) - rank(b));
+}
+
+// Auto detection: a thumbnail of the track is compared frame to frame. Frames whose
+// mean pixel difference passes CHANGE_THRESHOLD count as changed; the share of changed
+// frames over the window decides, with a dead band in between to avoid flapping.
+const SAMPLE_INTERVAL_MS = 500;
+const SAMPLE_WIDTH = 64;
+const SAMPLE_HEIGHT = 36;
+const WINDOW_SIZE = 12;
+const CHANGE_THRESHOLD = 2;
+const MOTION_RATIO = 0.6;
+const DETAIL_RATIO = 0.25;
+
+export class ContentDetector {
+  private video = document.createElement('video');
+  private canvas = document.createElement('canvas');
+  private context: CanvasRenderingContext2D | null;
+  private previous: Uint8ClampedArray | null = null;
+  private changes: boolean[] = [];
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private current: ContentType | null = null;
+
+  constructor(
+    track: MediaStreamTrack,
+    private onChange: (type: ContentType) => void
+  ) {
+    this.canvas.width = SAMPLE_WIDTH;
+    this.canvas.height = SAMPLE_HEIGHT;
+    this.context = this.canvas.getContext('2d', { willReadFrequently: true });
+    this.video.muted = true;
+    this.video.playsInline = true;
+    this.video.srcObject = new MediaStream([track]);
+  }
+
+  start() {
+    if (this.timer) return;
+    this.video.play().catch((error) => console.warn('Content detector could not play track:', error));
+    this.timer = setInterval(() => this.sample(), SAMPLE_INTERVAL_MS);
+  }
+
+  stop() {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = null;
+    this.video.srcObject = null;
+  }
+
+  private sample() {
+    if (!this.context || this.video.readyState < HTMLMediaElement.HAVE_CURRENT_DATA) return;
+
+    this.context.drawImage(this.video, 0, 0, SAMPLE_WIDTH, SAMPLE_HEIGHT);
+    const frame = this.context.getImageData(0, 0, SAMPLE_WIDTH, SAMPLE_HEIGHT).data;
+
+    if (this.previous) {
+      let diff = 0;
+      for (let i = 0; i < frame.length; i += 4) {
+        // Green channel is a good enough stand-in for luminance here
+        diff += Math.abs(frame[i + 1] - this.previous[i + 1]);
+      }
+      this.changes.push(diff / (frame.length / 4) > CHANGE_THRESHOLD);
+      if (this.changes.length > WINDOW_SIZE) this.changes.shift();
+    }
+    this.previous = frame;
+
+    if (this.changes.length < WINDOW_SIZE) return;
+    const ratio = this.changes.filter(Boolean).length / this.changes.length;
+    const detected = ratio >= MOTION_RATIO ? 'motion' : ratio <= DETAIL_RATIO ? 'detail' : this.current;
+    if (detected && detected !== this.current) {
+      this.current = detected;
+      console.log('Detected content type:', detected, `(${Math.round(ratio * 100)}% frames changed)`);
+      this.onChange(detected);
+    }
+  }
+}
@@ -0,0 +1,25 @@
+// The name a viewer goes by in chat and the room roster, remembered between visits
+import { MAX_DISPLAY_NAME_LENGTH } from '../../shared/protocol';
+
+const DISPLAY_NAME_KEY = 'displayName';
+
+export function loadDisplayName(): string {
+  try {
+    return localStorage.getItem(DISPLAY_NAME_KEY) ?? '';
+  } catch {
+    return '';
+  }
+}
+
+export function saveDisplayName(name: string) {
+  try {
+    localStorage.setItem(DISPLAY_NAME_KEY, name);
+  } catch {
+    // Storage can be unavailable (private mode); the name then lasts for this page only
+  }
+}
+
+// What the server would keep of a typed name
+export function cleanDisplayName(name: string): string {
+  return name.trim().slice(0, MAX_DISPLAY_NAME_LENGTH);
+}
@@ -0,0 +1,22 @@
+// The identity token the signaling hub issued to this browser (see shared/identity.ts), kept
+// across reloads so the hub still knows us: a host can take its room back, and a ban holds.
+// Each transport reaches a different hub, so each keeps its own.
+import type { TransportKind } from './transports';
+
+const tokenKey = (kind: TransportKind) => `signalingToken:${kind}`;
+
+export function loadIdentityToken(kind: TransportKind): string | undefined {
+  try {
+    return localStorage.getItem(tokenKey(kind)) ?? undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+export function saveIdentityToken(kind: TransportKind, token: string) {
+  try {
+    localStorage.setItem(tokenKey(kind), token);
+  } catch {
+    // Storage can be unavailable (private mode); the token then lasts for this page only
+  }
+}
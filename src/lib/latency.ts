@@ -0,0 +1,69 @@
+// Glass-to-glass latency: how far what a viewer sees lags what the host captured.
+// RTCP sender reports map RTP timestamps to the sender's clock, and Chromium turns that into
+// inbound-rtp estimatedPlayoutTimestamp: the capture time, on the sender's clock, of the frame
+// on screen now. With the sender's clock known from clock sync the difference is that hop's
+// latency; a relay's own lag behind the host is added on top.
+import type { StatsSample } from './stats';
+
+// Viewers report to the host at most this often
+export const LATENCY_REPORT_INTERVAL_MS = 5000;
+
+// Viewer setting: how much jitter buffer to ask the browser for. Lowest latency plays frames as
+// soon as they can be decoded and stutters on a bumpy network; smooth holds a little back.
+export type LatencyMode = 'lowest' | 'smooth';
+
+export const PLAYOUT_DELAY_MS: Record<LatencyMode, number> = { lowest: 0, smooth: 300 };
+
+const LATENCY_MODE_KEY = 'latencyMode';
+
+export function loadLatencyMode(): LatencyMode {
+  try {
+    return localStorage.getItem(LATENCY_MODE_KEY) === 'lowest' ? 'lowest' : 'smooth';
+  } catch {
+    return 'smooth';
+  }
+}
+
+export function saveLatencyMode(mode: LatencyMode) {
+  try {
+    localStorage.setItem(LATENCY_MODE_KEY, mode);
+  } catch {
+    // Storage can be unavailable (private mode); the choice then lasts for this page only
+  }
+}
+
+// Median over this many measurements, so one late sender report does not make the badge jump
+const WINDOW = 5;
+// Anything above this is a clock or sender-report problem, not the stream
+const MAX_PLAUSIBLE_MS = 30000;
+
+export class LatencyMeter {
+  private values: number[] = [];
+
+  // senderOffset: ms to add to our clock to read the sender's; upstreamDelay: how far the
+  // sender's media already lags the host (0 when the sender is the host)
+  addSample(sample: StatsSample, senderOffset: number, upstreamDelay = 0): number | null {
+    if (sample.playoutTimestamp === null) return this.get();
+    const hop = sample.timestamp + senderOffset - sample.playoutTimestamp;
+    if (hop > MAX_PLAUSIBLE_MS) return this.get();
+
+    // Clock estimates are good to a few ms; a slightly negative hop is just that error
+    this.values.push(Math.max(0, hop) + upstreamDelay);
+    if (this.values.length > WINDOW) this.values.shift();
+    return this.get();
+  }
+
+  get(): number | null {
+    if (this.values.length === 0) return null;
+    const sorted = [...this.values].sort((a, b) => a - b);
+    return sorted[Math.floor(sorted.length / 2)];
+  }
+
+  reset() {
+    this.values = [];
+  }
+}
+
+export function formatLatency(ms: number): string {
+  return ms < 1000 ? `${Math.round(ms)} ms` : `${(ms / 1000).toFixed(1)} s`;
+}
@@ -0,0 +1,97 @@
+// Watch party: the host plays a URL or local file in its own <video>; viewers play the same
+// media in theirs and follow the host's play/pause/seek/rate over signaling
+import type { PlaybackSource, PlaybackState } from '../../shared/protocol';
+
+// The host re-sends its state this often while playing so viewers have a fresh reference
+export const PLAYBACK_HEARTBEAT_MS = 2000;
+
+const CORRECTION_INTERVAL_MS = 250;
+// Closer than this counts as in sync
+const IN_SYNC_S = 0.05;
+// Further off than this is fixed with a seek; in between, the playback rate is nudged
+const SEEK_THRESHOLD_S = 1;
+const MAX_RATE_NUDGE = 0.1;
+
+export function readPlayback(video: HTMLVideoElement, source: PlaybackSource | null, seq: number): PlaybackState {
+  return {
+    source,
+    playing: !video.paused && !video.ended,
+    position: video.currentTime,
+    rate: video.playbackRate,
+    seq,
+  };
+}
+
+// Where the host's playhead is now, for a state received `elapsedMs` ago
+export function expectedPosition(state: PlaybackState, elapsedMs: number): number {
+  return state.playing ? state.position + (elapsedMs / 1000) * state.rate : state.position;
+}
+
+// Same media as the host? Files can only be compared by name and size.
+export function isSameFile(source: PlaybackSource | null, file: File | null): boolean {
+  return source?.kind === 'file' && !!file && file.name === source.name && file.size === source.size;
+}
+
+// Viewer side: keeps a <video> within ~100 ms of the host
+export class PlaybackFollower {
+  private state: PlaybackState | null = null;
+  private receivedAt = 0;
+  private timer: ReturnType<typeof setInterval> | null = null;
+
+  constructor(
+    private video: HTMLVideoElement,
+    // play() was refused until the user interacts with the page
+    private onBlocked: () => void
+  ) {}
+
+  start() {
+    if (this.timer) return;
+    this.timer = setInterval(() => this.correct(), CORRECTION_INTERVAL_MS);
+  }
+
+  stop() {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = null;
+  }
+
+  update(state: PlaybackState) {
+    if (this.state && state.seq < this.state.seq) return;
+    this.state = state;
+    this.receivedAt = performance.now();
+    this.correct();
+  }
+
+  // Seconds ahead (positive) or behind the host, if known
+  getDrift(): number | null {
+    if (!this.state || this.video.readyState < HTMLMediaElement.HAVE_METADATA) return null;
+    return this.video.currentTime - expectedPosition(this.state, performance.now() - this.receivedAt);
+  }
+
+  private correct() {
+    const { state, video } = this;
+    const drift = this.getDrift();
+    if (!state || drift === null) return;
+
+    if (!state.playing) {
+      if (!video.paused) video.pause();
+      if (Math.abs(drift) > IN_SYNC_S) video.currentTime = state.position;
+      video.playbackRate = state.rate;
+      return;
+    }
+
+    if (video.paused) {
+      video.play().catch((error: DOMException) => {
+        if (error.name === 'NotAllowedError') this.onBlocked();
+      });
+    }
+    if (Math.abs(drift) > SEEK_THRESHOLD_S) {
+      video.currentTime = video.currentTime - drift;
+      video.playbackRate = state.rate;
+    } else if (Math.abs(drift) > IN_SYNC_S) {
+      // Ahead: slow down a little; behind: speed up a little
+      video.playbackRate = state.rate * (1 - Math.max(-MAX_RATE_NUDGE, Math.min(MAX_RATE_NUDGE, drift)));
+    } else {
+      video.playbackRate = state.rate;
+    }
+  }
+}
@@ -1,25 +1,78 @@
 /* eslint-disable @typescript-eslint/no-explicit-any */
 // Fixed signaling service with proper initialization
+import {
+  PROTOCOL_VERSION,
+  parseServerMessage,
+  type Admission,
+  type ChatEvent,
+  type ChatRef,
+  type ClientMessage,
+  type IceCandidate,
+  type ModerationAction,
+  type PlaybackState,
+  type RoomMode,
+  type ServerMessage,
+  type ServerMessageOf,
+  type ServerMessageType,
+  type SessionDescription,
+  type SimulcastLayer,
+} from '../../shared/protocol';
+import {
+  createTransportFactory,
+  isTransportKind,
+  type SignalingTransport,
+  type TransportFactory,
+  type TransportKind,
+} from './transports';
+import { clockSync } from './clock';
+import { loadIdentityToken, saveIdentityToken } from './identity-token';
+
+export * from '../../shared/protocol';
+export type { TransportKind } from './transports';
+
 const WS_URL = (import.meta.env?.VITE_WS_URL as string) || (window as any)?.__WS_URL__ || 'ws://localhost:5000'; // Changed from 8080 to 5000
 
-export type SignalingMessage = {
-  type: string;
-  roomId?: string;
-  userId?: string;
-  targetId?: string;
-  fromId?: string; // Added missing fromId
-  data?: any;
-  text?: string;
-  username?: string;
-  [key: string]: unknown;
-};
+// ?signaling=broadcast|memory|websocket wins over VITE_SIGNALING_TRANSPORT; read once at load
+// so the choice survives client-side navigation
+function resolveTransportKind(): TransportKind {
+  const fromUrl = typeof window !== 'undefined'
+    ? new URLSearchParams(window.location.search).get('signaling')
+    : null;
+  if (isTransportKind(fromUrl)) return fromUrl;
+
+  const fromEnv = import.meta.env?.VITE_SIGNALING_TRANSPORT;
+  if (isTransportKind(fromEnv)) return fromEnv;
+
+  return 'websocket';
+}
+
+// ?mode=sfu|mesh|tree lets the host ask for a room topology; otherwise the server picks
+export function resolveRequestedRoomMode(): RoomMode | undefined {
+  const fromUrl = typeof window !== 'undefined'
+    ? new URLSearchParams(window.location.search).get('mode')
+    : null;
+  return fromUrl === 'sfu' || fromUrl === 'mesh' || fromUrl === 'tree' ? fromUrl : undefined;
+}
+
+// Pings sent right after connecting so the server clock estimate converges quickly;
+// the heartbeat keeps refreshing it afterwards
+const CLOCK_SYNC_BURST = 5;
+const CLOCK_SYNC_INTERVAL_MS = 1000;
+
+// '*' subscribes to every incoming message
+export type SignalingEvent = ServerMessageType | '*';
 
-export type SignalingCallback = (message: SignalingMessage) => void;
+export type SignalingMessage<T extends SignalingEvent = SignalingEvent> =
+  T extends ServerMessageType ? ServerMessageOf<T> : ServerMessage;
+
+export type SignalingCallback<T extends SignalingEvent = SignalingEvent> = (message: SignalingMessage<T>) => void;
 
 class SignalingService {
-  private ws: WebSocket | null = null;
+  private transport: SignalingTransport | null = null;
+  private transportKind: TransportKind;
+  private createTransport: TransportFactory;
   private sendQueue: string[] = [];
-  private callbacks: Map<string, SignalingCallback[]> = new Map();
+  private callbacks: Map<SignalingEvent, SignalingCallback<any>[]> = new Map();
   private reconnectAttempts = 0;
   private maxReconnectAttempts = 10;
   private baseReconnectDelay = 1000;
@@ -28,13 +81,32 @@ class SignalingService {
   private currentRoomId: string | null = null;
   private currentUserId: string | null = null;
   private currentRole: 'host' | 'viewer' | null = null;
+  private requestedMode: RoomMode | undefined;
+  // Sent again when we rejoin after a reconnect: the host's access settings, the viewer's passcode
+  private roomAccess: { passcode?: string; admission: Admission } = { admission: 'open' };
+  private passcode: string | undefined;
+  // Our display name, sent with create-room and join-room
+  private displayName: string | undefined;
   private autoReconnect = true;
   private heartbeatIntervalMs = 25000;
   private heartbeatTimer: ReturnType<typeof setInterval> | null = null;
+  private clockSyncTimer: ReturnType<typeof setTimeout> | null = null;
   private isStarted = false;
 
-  constructor() {
+  constructor(kind: TransportKind = resolveTransportKind()) {
     // Do not auto-connect in constructor
+    this.transportKind = kind;
+    this.createTransport = createTransportFactory(kind, WS_URL);
+  }
+
+  // Swap the transport (e.g. an InMemoryTransport in tests); takes effect on the next connect
+  public setTransport(kind: TransportKind, factory: TransportFactory = createTransportFactory(kind, WS_URL)) {
+    this.transportKind = kind;
+    this.createTransport = factory;
+  }
+
+  public getTransportKind(): TransportKind {
+    return this.transportKind;
   }
 
   public start(autoConnect = true) {
@@ -58,14 +130,15 @@ class SignalingService {
     this.intentionallyClosed = true;
     this.clearReconnectTimer();
     this.clearHeartbeat();
+    this.clearClockSync();
     
-    if (this.ws) {
+    if (this.transport) {
       try { 
-        this.ws.close(); 
+        this.transport.close(); 
       } catch (e) { 
-        console.warn('Error closing WebSocket:', e);
+        console.warn('Error closing signaling transport:', e);
       }
-      this.ws = null;
+      this.transport = null;
     }
     
     this.sendQueue = [];
@@ -76,35 +149,49 @@ class SignalingService {
   }
 
   private connect() {
-    if (this.ws && (this.ws.readyState === WebSocket.OPEN || this.ws.readyState === WebSocket.CONNECTING)) {
-      console.debug('WebSocket already connecting/open');
+    if (this.transport && (this.transport.state === 'open' || this.transport.state === 'connecting')) {
+      console.debug('Signaling transport already connecting/open');
       return;
     }
 
     try {
-      console.info('Connecting to signaling server:', WS_URL);
-      this.ws = new WebSocket(WS_URL);
-      this.ws.binaryType = 'arraybuffer';
-
-      this.ws.onopen = this.handleOpen.bind(this);
-      this.ws.onmessage = this.handleMessage.bind(this);
-      this.ws.onclose = this.handleClose.bind(this);
-      this.ws.onerror = this.handleError.bind(this);
+      console.info(`Connecting to signaling (${this.transportKind})`, this.transportKind === 'websocket' ? WS_URL : '');
+      const transport = this.createTransport();
+      this.transport = transport;
+
+      // Ignore events from transports we have already replaced
+      transport.onopen = () => { if (this.transport === transport) this.handleOpen(); };
+      transport.onmessage = (data) => { if (this.transport === transport) this.handleMessage(data); };
+      transport.onclose = (code, reason) => { if (this.transport === transport) this.handleClose(code, reason); };
+      transport.onerror = (err) => this.handleError(err);
     } catch (err) {
-      console.error('Failed to create WebSocket:', err);
+      console.error('Failed to create signaling transport:', err);
+      this.transport = null;
       this.scheduleReconnect();
     }
   }
 
-  private handleOpen(_ev: Event) {
-    console.info('WebSocket connected successfully');
+  private isOpen() {
+    return this.transport?.state === 'open';
+  }
+
+  private handleOpen() {
+    console.info('Signaling transport connected successfully');
     this.reconnectAttempts = 0;
 
+    // Version handshake goes out before anything queued
+    try {
+      const token = loadIdentityToken(this.transportKind);
+      this.transport?.send(JSON.stringify({ type: 'hello', version: PROTOCOL_VERSION, token } satisfies ClientMessage));
+    } catch (e) {
+      console.warn('Failed to send hello', e);
+    }
+
     // Flush queue
-    while (this.sendQueue.length > 0 && this.ws && this.ws.readyState === WebSocket.OPEN) {
+    while (this.sendQueue.length > 0 && this.isOpen()) {
       const payload = this.sendQueue.shift()!;
       try { 
-        this.ws.send(payload); 
+        this.transport!.send(payload); 
       } catch (e) { 
         console.warn('Failed to flush queued message', e); 
         this.sendQueue.unshift(payload); 
@@ -112,50 +199,81 @@ class SignalingService {
       }
     }
 
-    this.startHeartbeat();
+    if (this.transport?.needsHeartbeat) {
+      this.startHeartbeat();
+    }
+    this.startClockSync();
 
     // Rejoin room if needed
     if (this.currentRoomId && this.currentUserId && this.currentRole) {
       console.info('Rejoining room after reconnect', this.currentRoomId, this.currentRole);
       if (this.currentRole === 'host') {
-        this.createRoom(this.currentRoomId, this.currentUserId);
+        this.createRoom(this.currentRoomId, this.currentUserId, this.requestedMode);
       } else {
-        this.joinRoom(this.currentRoomId, this.currentUserId);
+        this.joinRoom(this.currentRoomId, this.currentUserId, this.passcode);
       }
     }
   }
 
-  private handleMessage(ev: MessageEvent) {
-    try {
-      const data = typeof ev.data === 'string' ? ev.data : String(ev.data);
-      const message: SignalingMessage = JSON.parse(data);
-      
-      console.debug('Received:', message.type, message);
-
-      // Call type-specific callbacks
-      const list = this.callbacks.get(message.type ?? '') || [];
-      list.forEach(cb => safeCall(cb, message));
-
-      // Call wildcard listeners
-      const wildcard = this.callbacks.get('*') || [];
-      wildcard.forEach(cb => safeCall(cb, message));
-    } catch (err) {
-      console.error('Error parsing message:', err, ev.data);
+  private handleMessage(data: string) {
+    const parsed = parseServerMessage(data);
+    if (parsed.ok === false) {
+      console.error('Dropping invalid signaling message:', parsed.error, data);
+      return;
+    }
+
+    const message = parsed.message;
+    console.debug('Received:', message.type, message);
+
+    if (message.type === 'pong') {
+      clockSync.server.addSample(message.ts, message.serverTime);
+    }
+
+    if (message.type === 'welcome' && message.version !== PROTOCOL_VERSION) {
+      this.dispatch({
+        type: 'error',
+        code: 'version-mismatch',
+        message: `Signaling server speaks protocol v${message.version}, this app speaks v${PROTOCOL_VERSION}`,
+        expectedVersion: message.version,
+      });
+      return;
     }
+    if (message.type === 'welcome' && message.token) {
+      saveIdentityToken(this.transportKind, message.token);
+    }
+
+    this.dispatch(message);
   }
 
-  private handleClose(ev: CloseEvent) {
-    console.warn('WebSocket closed:', ev.code, ev.reason);
-    this.ws = null;
+  private dispatch(message: ServerMessage) {
+    // Reconnecting cannot fix an incompatible client/server pair
+    if (message.type === 'error' && message.code === 'version-mismatch') {
+      console.error('Signaling protocol version mismatch:', message.message);
+      this.autoReconnect = false;
+    }
+
+    // Call type-specific callbacks
+    const list = this.callbacks.get(message.type) || [];
+    list.forEach(cb => safeCall(cb, message));
+
+    // Call wildcard listeners
+    const wildcard = this.callbacks.get('*') || [];
+    wildcard.forEach(cb => safeCall(cb, message));
+  }
+
+  private handleClose(code: number, reason: string) {
+    console.warn('Signaling transport closed:', code, reason);
+    this.transport = null;
     this.clearHeartbeat();
+    this.clearClockSync();
 
     if (!this.intentionallyClosed && this.autoReconnect && this.isStarted) {
       this.scheduleReconnect();
     }
   }
 
-  private handleError(ev: Event | any) {
-    console.error('WebSocket error:', ev);
+  private handleError(ev: unknown) {
+    console.error('Signaling transport error:', ev);
   }
 
   private scheduleReconnect() {
@@ -185,15 +303,36 @@ class SignalingService {
 
   private startHeartbeat() {
     this.clearHeartbeat();
-    this.heartbeatTimer = setInterval(() => {
-      if (this.ws && this.ws.readyState === WebSocket.OPEN) {
-        try {
-          this.ws.send(JSON.stringify({ type: 'ping', ts: Date.now() }));
-        } catch (e) {
-          console.warn('Heartbeat failed:', e);
-        }
-      }
-    }, this.heartbeatIntervalMs);
+    this.heartbeatTimer = setInterval(() => this.sendPing(), this.heartbeatIntervalMs);
+  }
+
+  // Every ping carries our clock; the server's pong feeds the clock estimate
+  private sendPing() {
+    if (!this.isOpen()) return;
+    try {
+      this.transport!.send(JSON.stringify({ type: 'ping', ts: Date.now() } satisfies ClientMessage));
+    } catch (e) {
+      console.warn('Ping failed:', e);
+    }
+  }
+
+  private startClockSync() {
+    this.clearClockSync();
+    // A reconnect may land on another server instance
+    clockSync.server.reset();
+    let sent = 0;
+    const ping = () => {
+      this.sendPing();
+      this.clockSyncTimer = ++sent < CLOCK_SYNC_BURST ? setTimeout(ping, CLOCK_SYNC_INTERVAL_MS) : null;
+    };
+    ping();
+  }
+
+  private clearClockSync() {
+    if (this.clockSyncTimer) {
+      clearTimeout(this.clockSyncTimer);
+      this.clockSyncTimer = null;
+    }
   }
 
   private clearHeartbeat() {
@@ -203,13 +342,13 @@ class SignalingService {
     }
   }
 
-  public safeSend(message: SignalingMessage): Promise<void> {
+  public safeSend(message: ClientMessage): Promise<void> {
     const payload = JSON.stringify(message);
 
     return new Promise((resolve) => {
-      if (this.ws && this.ws.readyState === WebSocket.OPEN) {
+      if (this.isOpen()) {
         try { 
-          this.ws.send(payload); 
+          this.transport!.send(payload); 
           resolve(); 
         } catch (err) { 
           console.error('Send failed:', err); 
@@ -219,7 +358,7 @@ class SignalingService {
         return;
       }
 
-      if (this.ws && this.ws.readyState === WebSocket.CONNECTING) {
+      if (this.transport?.state === 'connecting') {
         console.debug('Queueing message (connecting):', message.type);
         this.sendQueue.push(payload);
         resolve();
@@ -233,36 +372,57 @@ class SignalingService {
     });
   }
 
-  private send(message: SignalingMessage) {
+  private send(message: ClientMessage) {
     this.safeSend(message).catch(() => { /* ignore */ });
   }
 
-  public on(type: string, cb: SignalingCallback) {
+  public on<T extends SignalingEvent>(type: T, cb: SignalingCallback<T>) {
     if (!this.callbacks.has(type)) {
       this.callbacks.set(type, []);
     }
     this.callbacks.get(type)!.push(cb);
   }
 
-  public off(type: string, cb: SignalingCallback) {
+  public off<T extends SignalingEvent>(type: T, cb: SignalingCallback<T>) {
     const arr = this.callbacks.get(type);
     if (!arr) return;
     const idx = arr.indexOf(cb);
     if (idx >= 0) arr.splice(idx, 1);
   }
 
-  public createRoom(roomId: string, userId: string) {
+  public createRoom(roomId: string, userId: string, mode?: RoomMode) {
     this.currentRoomId = roomId;
     this.currentUserId = userId;
     this.currentRole = 'host';
-    this.send({ type: 'create-room', roomId, userId });
+    this.requestedMode = mode;
+    this.send({ type: 'create-room', roomId, userId, mode, name: this.displayName, ...this.roomAccess });
   }
 
-  public joinRoom(roomId: string, userId: string) {
+  // Takes effect from the next create-room or join-room
+  public setDisplayName(name: string) {
+    this.displayName = name || undefined;
+  }
+
+  // Host: require a passcode (empty for none) and/or approval for viewers from now on
+  public setRoomAccess(roomId: string, passcode: string, admission: Admission) {
+    this.roomAccess = { passcode: passcode || undefined, admission };
+    this.send({ type: 'room-access', roomId, ...this.roomAccess });
+  }
+
+  public admitViewer(roomId: string, userId: string, admit: boolean) {
+    this.send({ type: 'admission', roomId, userId, admit });
+  }
+
+  public moderate(roomId: string, userId: string, action: ModerationAction) {
+    this.send({ type: 'moderate', roomId, userId, action });
+  }
+
+  public joinRoom(roomId: string, userId: string, passcode?: string) {
     this.currentRoomId = roomId;
     this.currentUserId = userId;
     this.currentRole = 'viewer';
-    this.send({ type: 'join-room', roomId, userId });
+    this.passcode = passcode;
+    this.send({ type: 'join-room', roomId, userId, passcode, name: this.displayName });
   }
 
   public leaveRoom(roomId?: string) {
@@ -272,41 +432,71 @@ class SignalingService {
     this.currentRoomId = null;
     this.currentRole = null;
     this.currentUserId = null;
+    this.roomAccess = { admission: 'open' };
+    this.passcode = undefined;
   }
 
-  public sendOffer(roomId: string, targetId: string, offer: RTCSessionDescriptionInit) {
-    this.send({ type: 'offer', roomId, targetId, data: offer });
+  public sendOffer(roomId: string, targetId: string, offer: RTCSessionDescriptionInit, session?: number) {
+    this.send({ type: 'offer', roomId, targetId, data: offer as SessionDescription, session });
   }
 
   public sendAnswer(roomId: string, targetId: string, answer: RTCSessionDescriptionInit) {
-    this.send({ type: 'answer', roomId, targetId, data: answer });
+    this.send({ type: 'answer', roomId, targetId, data: answer as SessionDescription });
   }
 
   public sendIceCandidate(roomId: string, targetId: string, candidate: RTCIceCandidate | null) {
-    this.send({ type: 'ice-candidate', roomId, targetId, data: candidate });
+    const data = candidate ? (candidate.toJSON() as IceCandidate) : null;
+    this.send({ type: 'ice-candidate', roomId, targetId, data });
+  }
+
+  public sendLayerRequest(roomId: string, targetId: string, layer: SimulcastLayer) {
+    this.send({ type: 'layer-request', roomId, targetId, layer });
+  }
+
+  public sendPlayback(roomId: string, state: PlaybackState) {
+    this.send({ type: 'playback', roomId, state });
+  }
+
+  // direct: members that already got this message over a data channel; the server skips them
+  public sendChatMessage(
+    roomId: string,
+    userId: string,
+    username: string,
+    text: string,
+    id?: string,
+    direct?: string[],
+    replyTo?: ChatRef
+  ) {
+    this.send({ type: 'chat-message', roomId, userId, id, username, text, replyTo, direct });
+  }
+
+  public sendChatEvent(roomId: string, event: ChatEvent) {
+    this.send({ type: 'chat-event', roomId, event });
+  }
+
+  // Ask for the page of chat before `cursor` (from the last chat-history message)
+  public requestChatHistory(roomId: string, before: number) {
+    this.send({ type: 'chat-history', roomId, before });
   }
 
-  public sendChatMessage(roomId: string, userId: string, username: string, text: string) {
-    this.send({ type: 'chat-message', roomId, userId, username, text });
+  public sendRelayCapacity(roomId: string, uplinkKbps: number) {
+    this.send({ type: 'relay-capacity', roomId, uplinkKbps });
+  }
+
+  public sendLatencyReport(roomId: string, latencyMs: number) {
+    this.send({ type: 'latency-report', roomId, latencyMs });
   }
 
   public isConnected() { 
-    return this.ws?.readyState === WebSocket.OPEN; 
+    return this.isOpen(); 
   }
 
   public getConnectionState() {
-    if (!this.ws) return 'closed';
-    switch (this.ws.readyState) {
-      case WebSocket.CONNECTING: return 'connecting';
-      case WebSocket.OPEN: return 'open';
-      case WebSocket.CLOSING: return 'closing';
-      case WebSocket.CLOSED: return 'closed';
-      default: return 'unknown';
-    }
+    return this.transport?.state ?? 'closed';
   }
 }
 
-function safeCall(cb: SignalingCallback, message: SignalingMessage) {
+function safeCall(cb: SignalingCallback<any>, message: ServerMessage) {
   try { 
     cb(message); 
   } catch (err) { 
@@ -316,10 +506,32 @@ function safeCall(cb: SignalingCallback, message: SignalingMessage) {
 
 export const signalingService = new SignalingService();
 
+// Lower-case letters and digits without the look-alikes 0/o and 1/i/l, so a code read aloud
+// or copied by hand comes out right
+const ID_ALPHABET = '23456789abcdefghjkmnpqrstuvwxyz';
+
+function randomChars(length: number): string {
+  let out = '';
+  // Bytes past the last whole multiple of the alphabet would favour its first characters
+  const limit = 256 - (256 % ID_ALPHABET.length);
+  while (out.length < length) {
+    for (const byte of crypto.getRandomValues(new Uint8Array(length))) {
+      if (byte < limit && out.length < length) out += ID_ALPHABET[byte % ID_ALPHABET.length];
+    }
+  }
+  return out;
+}
+
 export function generatePeerId(prefix = 'peer') {
-  return `${prefix}_${Math.random().toString(36).slice(2, 10)}_${Date.now()}`;
+  return `${prefix}_${randomChars(10)}`;
 }
 
+// Three dash-separated groups of four, e.g. `k7qm-x3hf-9tzc`: about 59 bits, too many to guess
 export function generateRoomId() {
-  return Math.random().toString(36).slice(2, 10);
+  return [randomChars(4), randomChars(4), randomChars(4)].join('-');
+}
+
+// Room codes as typed or pasted: case does not matter and spaces stand in for dashes
+export function normalizeRoomId(input: string) {
+  return input.trim().toLowerCase().replace(/\s+/g, '-');
 }
\ No newline at end of file
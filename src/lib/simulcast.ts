@@ -0,0 +1,100 @@
+// Simulcast: the host publishes several encodings of one track (SFU rooms) and each viewer
+// picks the one that fits its player and its connection
+import { SIMULCAST_RIDS, type SimulcastLayer } from '../../shared/protocol';
+import { isCongested, isHealthy } from './adaptive';
+import type { StatsSample } from './stats';
+
+// Best first
+export const SIMULCAST_LAYERS: SimulcastLayer[] = ['high', 'medium', 'low'];
+
+const LAYER_ENCODINGS: Record<SimulcastLayer, { scaleResolutionDownBy: number; maxBitrate: number }> = {
+  high: { scaleResolutionDownBy: 1, maxBitrate: 2_500_000 },
+  medium: { scaleResolutionDownBy: 2, maxBitrate: 900_000 },
+  low: { scaleResolutionDownBy: 4, maxBitrate: 300_000 },
+};
+
+// sendEncodings for addTransceiver, lowest layer first as browsers expect
+export function simulcastEncodings(): RTCRtpEncodingParameters[] {
+  return [...SIMULCAST_LAYERS].reverse().map((layer) => ({
+    rid: SIMULCAST_RIDS[layer],
+    ...LAYER_ENCODINGS[layer],
+  }));
+}
+
+export interface RenderSize {
+  // CSS pixels of the video element
+  width: number;
+  height: number;
+  fullscreen: boolean;
+}
+
+// Smallest layer worth asking for at a given player height (device pixels), assuming a
+// 1080p source: 'high' is 1080 lines, 'medium' 540, 'low' 270
+const LAYER_MIN_HEIGHT: Record<SimulcastLayer, number> = { high: 540, medium: 270, low: 0 };
+
+export function layerForSize(size: RenderSize, pixelRatio = window.devicePixelRatio || 1): SimulcastLayer {
+  if (size.fullscreen) return 'high';
+  const height = size.height * pixelRatio;
+  return SIMULCAST_LAYERS.find((layer) => height > LAYER_MIN_HEIGHT[layer]) ?? 'low';
+}
+
+// Step down at most this often; step back up after this many healthy samples in a row
+const DOWNGRADE_COOLDOWN_MS = 3000;
+const UPGRADE_AFTER_SAMPLES = 10;
+
+// Viewer side: the layer to request is the one the player size calls for, lowered
+// while the incoming stream shows congestion
+export class LayerSelector {
+  private sizeLayer: SimulcastLayer = 'high';
+  // How many layers below sizeLayer congestion pushes us
+  private congestionSteps = 0;
+  private healthySamples = 0;
+  private lastDowngradeAt = 0;
+  private current: SimulcastLayer | null = null;
+
+  constructor(private onChange: (layer: SimulcastLayer) => void) {}
+
+  getLayer(): SimulcastLayer {
+    return this.current ?? this.pick();
+  }
+
+  setRenderSize(size: RenderSize) {
+    // Going fullscreen is a clear ask for the best picture; give it a fresh chance
+    if (size.fullscreen) this.congestionSteps = 0;
+    this.sizeLayer = layerForSize(size);
+    this.update();
+  }
+
+  addSample(sample: StatsSample) {
+    const now = Date.now();
+    if (isCongested(sample)) {
+      this.healthySamples = 0;
+      if (now - this.lastDowngradeAt >= DOWNGRADE_COOLDOWN_MS && this.congestionSteps < SIMULCAST_LAYERS.length - 1) {
+        this.congestionSteps++;
+        this.lastDowngradeAt = now;
+      }
+    } else if (isHealthy(sample)) {
+      this.healthySamples++;
+      if (this.congestionSteps > 0 && this.healthySamples >= UPGRADE_AFTER_SAMPLES) {
+        this.congestionSteps--;
+        this.healthySamples = 0;
+      }
+    } else {
+      this.healthySamples = 0;
+    }
+    this.update();
+  }
+
+  private pick(): SimulcastLayer {
+    const index = Math.min(SIMULCAST_LAYERS.indexOf(this.sizeLayer) + this.congestionSteps, SIMULCAST_LAYERS.length - 1);
+    return SIMULCAST_LAYERS[index];
+  }
+
+  private update() {
+    const layer = this.pick();
+    if (layer === this.current) return;
+    this.current = layer;
+    console.log('Requesting simulcast layer:', layer);
+    this.onChange(layer);
+  }
+}
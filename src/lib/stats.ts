@@ -0,0 +1,263 @@
+// Connection statistics: polls RTCPeerConnection.getStats() per peer and derives
+// the numbers people actually look at (bitrate, fps, resolution, loss, jitter, RTT, path)
+import type { WebRTCManager } from './webrtc';
+
+export type CandidateType = 'host' | 'srflx' | 'prflx' | 'relay';
+
+export interface StatsSample {
+  timestamp: number;
+  // Whether we send video on this connection (host, relaying viewer) or receive it
+  direction: 'outbound' | 'inbound';
+  // Video bitrate in kbit/s: sent on the host, received on the viewer
+  bitrateKbps: number | null;
+  framesPerSecond: number | null;
+  width: number | null;
+  height: number | null;
+  // Cumulative packets lost on the video stream
+  packetsLost: number | null;
+  // Packets lost since the previous sample, 0-100
+  lossPercent: number | null;
+  jitterMs: number | null;
+  // Inbound: average time frames waited in the jitter buffer since the previous sample
+  jitterBufferMs: number | null;
+  rttMs: number | null;
+  // Type of our side of the selected ICE candidate pair
+  candidateType: CandidateType | null;
+  // Send-side bandwidth estimate for the connection, in kbit/s
+  availableOutgoingKbps: number | null;
+  // Inbound, Chromium only: when the frame on screen now was captured, on the sender's clock (Unix ms)
+  playoutTimestamp: number | null;
+}
+
+export type StatsHistory = ReadonlyMap<string, StatsSample[]>;
+
+// Cumulative counters kept between polls to turn totals into rates
+interface Counters {
+  timestamp: number;
+  bytes: number;
+  packetsLost: number;
+  packets: number;
+  // Inbound: cumulative jitter-buffer delay (s) over how many frames left the buffer
+  jitterBufferDelay: number;
+  jitterBufferEmitted: number;
+}
+
+const DEFAULT_INTERVAL_MS = 1000;
+// estimatedPlayoutTimestamp is NTP time, which counts from 1900
+const NTP_TO_UNIX_MS = 2_208_988_800_000;
+const DEFAULT_HISTORY_LENGTH = 30;
+
+// The selected candidate pair, via the transport when the browser reports one
+function findSelectedPair(report: RTCStatsReport): RTCIceCandidatePairStats | undefined {
+  let selected: RTCIceCandidatePairStats | undefined;
+  report.forEach((stat) => {
+    if (stat.type === 'transport' && stat.selectedCandidatePairId) {
+      selected = report.get(stat.selectedCandidatePairId);
+    }
+  });
+  if (selected) return selected;
+
+  report.forEach((stat) => {
+    if (!selected && stat.type === 'candidate-pair' && stat.nominated && stat.state === 'succeeded') {
+      selected = stat;
+    }
+  });
+  return selected;
+}
+
+type VideoStat = Record<string, number | string | undefined>;
+
+// Every video stat of a type; a simulcast sender has one outbound-rtp per layer
+function findVideoStats(report: RTCStatsReport, type: RTCStatsType): VideoStat[] {
+  const found: VideoStat[] = [];
+  report.forEach((stat) => {
+    if (stat.type === type && stat.kind === 'video') {
+      found.push(stat);
+    }
+  });
+  return found;
+}
+
+const num = (value: unknown): number | null => (typeof value === 'number' ? value : null);
+
+const sum = (stats: VideoStat[], key: string): number | null =>
+  stats.some((stat) => num(stat[key]) !== null)
+    ? stats.reduce((total, stat) => total + (num(stat[key]) ?? 0), 0)
+    : null;
+
+// Turn one report into a sample; `previous` counters give rates, the new counters are returned
+export function summarizeStats(
+  report: RTCStatsReport,
+  previous?: Counters
+): { sample: StatsSample; counters: Counters } {
+  const outbounds = findVideoStats(report, 'outbound-rtp');
+  // Resolution and frame rate come from the largest layer
+  const outbound = outbounds.sort((a, b) => (num(b.frameWidth) ?? 0) - (num(a.frameWidth) ?? 0))[0];
+  const inbound = findVideoStats(report, 'inbound-rtp')[0];
+  // RTCP receiver reports about what we sent
+  const remoteInbounds = findVideoStats(report, 'remote-inbound-rtp');
+  const remoteInbound = remoteInbounds[0];
+  const pair = findSelectedPair(report);
+  const localCandidate = pair ? report.get(pair.localCandidateId) : undefined;
+
+  const timestamp = num(outbound?.timestamp ?? inbound?.timestamp) ?? performance.now();
+  let counters: Counters;
+  let packetsLost: number | null;
+  let jitter: number | null;
+  let rtt: number | null = num(pair?.currentRoundTripTime);
+  const availableOutgoing = num(pair?.availableOutgoingBitrate);
+  const playout = num(inbound?.estimatedPlayoutTimestamp);
+
+  if (outbound) {
+    packetsLost = sum(remoteInbounds, 'packetsLost');
+    jitter = num(remoteInbound?.jitter);
+    rtt = num(remoteInbound?.roundTripTime) ?? rtt;
+    counters = {
+      timestamp,
+      bytes: sum(outbounds, 'bytesSent') ?? 0,
+      packetsLost: packetsLost ?? 0,
+      packets: sum(outbounds, 'packetsSent') ?? 0,
+      jitterBufferDelay: 0,
+      jitterBufferEmitted: 0,
+    };
+  } else {
+    packetsLost = num(inbound?.packetsLost);
+    jitter = num(inbound?.jitter);
+    counters = {
+      timestamp,
+      bytes: num(inbound?.bytesReceived) ?? 0,
+      packetsLost: packetsLost ?? 0,
+      packets: (num(inbound?.packetsReceived) ?? 0) + (packetsLost ?? 0),
+      jitterBufferDelay: num(inbound?.jitterBufferDelay) ?? 0,
+      jitterBufferEmitted: num(inbound?.jitterBufferEmittedCount) ?? 0,
+    };
+  }
+
+  const video = outbound ?? inbound;
+  let bitrateKbps: number | null = null;
+  let lossPercent: number | null = null;
+  // Until there is a previous sample, the average since the stream started
+  const emitted = counters.jitterBufferEmitted - (previous?.jitterBufferEmitted ?? 0);
+  const jitterBufferMs =
+    inbound && !outbound && emitted > 0
+      ? ((counters.jitterBufferDelay - (previous?.jitterBufferDelay ?? 0)) / emitted) * 1000
+      : null;
+  if (previous && counters.timestamp > previous.timestamp) {
+    const seconds = (counters.timestamp - previous.timestamp) / 1000;
+    bitrateKbps = Math.max(0, ((counters.bytes - previous.bytes) * 8) / 1000 / seconds);
+
+    const packets = counters.packets - previous.packets;
+    const lost = counters.packetsLost - previous.packetsLost;
+    lossPercent = packets > 0 ? Math.min(100, Math.max(0, (lost / packets) * 100)) : 0;
+  } else if (remoteInbound && typeof remoteInbound.fractionLost === 'number') {
+    lossPercent = remoteInbound.fractionLost * 100;
+  }
+
+  return {
+    counters,
+    sample: {
+      timestamp: Date.now(),
+      direction: outbound ? 'outbound' : 'inbound',
+      bitrateKbps,
+      framesPerSecond: num(video?.framesPerSecond),
+      width: num(video?.frameWidth),
+      height: num(video?.frameHeight),
+      packetsLost,
+      lossPercent,
+      jitterMs: jitter === null ? null : jitter * 1000,
+      jitterBufferMs,
+      rttMs: rtt === null ? null : rtt * 1000,
+      candidateType: (localCandidate?.candidateType as CandidateType | undefined) ?? null,
+      availableOutgoingKbps: availableOutgoing === null ? null : availableOutgoing / 1000,
+      playoutTimestamp: outbound || playout === null ? null : playout - NTP_TO_UNIX_MS,
+    },
+  };
+}
+
+// Upload bandwidth this browser could spend relaying, in kbit/s. The send-side estimate of
+// a connection only ramps up once we actually send on it, so a viewer that only receives
+// also gets credit for half its Network Information downlink estimate (Chromium only).
+export function estimateUplinkKbps(history: StatsHistory): number | null {
+  let best: number | null = null;
+  history.forEach((samples) => {
+    const kbps = samples[samples.length - 1]?.availableOutgoingKbps ?? null;
+    if (kbps !== null && (best === null || kbps > best)) best = kbps;
+  });
+
+  const downlinkMbps = (navigator as Navigator & { connection?: { downlink?: number } }).connection?.downlink;
+  const fallback = typeof downlinkMbps === 'number' ? (downlinkMbps * 1000) / 2 : null;
+  if (best === null) return fallback;
+  return fallback === null ? best : Math.max(best, fallback);
+}
+
+// Polls every peer of a WebRTCManager while anyone is subscribed
+export class StatsCollector {
+  private history = new Map<string, StatsSample[]>();
+  private counters = new Map<string, Counters>();
+  private listeners = new Set<(history: StatsHistory) => void>();
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private polling = false;
+
+  constructor(
+    private manager: WebRTCManager,
+    private intervalMs = DEFAULT_INTERVAL_MS,
+    private historyLength = DEFAULT_HISTORY_LENGTH
+  ) {}
+
+  subscribe(listener: (history: StatsHistory) => void): () => void {
+    this.listeners.add(listener);
+    if (!this.timer) {
+      this.timer = setInterval(() => void this.poll(), this.intervalMs);
+      void this.poll();
+    }
+    return () => {
+      this.listeners.delete(listener);
+      if (this.listeners.size === 0 && this.timer) {
+        clearInterval(this.timer);
+        this.timer = null;
+      }
+    };
+  }
+
+  getHistory(): StatsHistory {
+    return new Map(this.history);
+  }
+
+  getLatest(peerId: string): StatsSample | undefined {
+    const samples = this.history.get(peerId);
+    return samples?.[samples.length - 1];
+  }
+
+  private async poll() {
+    if (this.polling) return;
+    this.polling = true;
+    try {
+      const peerIds = this.manager.getPeerIds();
+      for (const peerId of peerIds) {
+        try {
+          const report = await this.manager.getStats(peerId);
+          if (!report) continue;
+          const { sample, counters } = summarizeStats(report, this.counters.get(peerId));
+          this.counters.set(peerId, counters);
+          const samples = [...(this.history.get(peerId) ?? []), sample].slice(-this.historyLength);
+          this.history.set(peerId, samples);
+        } catch (error) {
+          console.warn('Failed to read stats for peer:', peerId, error);
+        }
+      }
+
+      // Forget peers that have gone away
+      for (const peerId of this.history.keys()) {
+        if (!peerIds.includes(peerId)) {
+          this.history.delete(peerId);
+          this.counters.delete(peerId);
+        }
+      }
+    } finally {
+      this.polling = false;
+    }
+
+    const snapshot = this.getHistory();
+    this.listeners.forEach((listener) => listener(snapshot));
+  }
+}
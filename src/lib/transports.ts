@@ -0,0 +1,292 @@
+// Signaling transports: how SignalingService reaches a SignalingHub
+import { SignalingHub } from '../../shared/hub';
+import type { HubConnection } from '../../shared/hub';
+
+export type TransportKind = 'websocket' | 'broadcast' | 'memory';
+
+export type TransportState = 'connecting' | 'open' | 'closing' | 'closed';
+
+// Close code used when a local hub goes away and clients must reconnect
+export const HUB_RESTART_CLOSE_CODE = 4001;
+
+// A single connection attempt, shaped after the WebSocket API.
+// SignalingService creates a fresh transport for every (re)connect.
+export interface SignalingTransport {
+  readonly kind: TransportKind;
+  // Whether the link can silently die and should be kept alive with pings
+  readonly needsHeartbeat: boolean;
+  readonly state: TransportState;
+  onopen: (() => void) | null;
+  onmessage: ((data: string) => void) | null;
+  onclose: ((code: number, reason: string) => void) | null;
+  onerror: ((error: unknown) => void) | null;
+  send(data: string): void;
+  close(): void;
+}
+
+export type TransportFactory = () => SignalingTransport;
+
+// Shared callback plumbing for the transports below
+abstract class BaseTransport implements SignalingTransport {
+  abstract readonly kind: TransportKind;
+  abstract readonly needsHeartbeat: boolean;
+  state: TransportState = 'connecting';
+  onopen: (() => void) | null = null;
+  onmessage: ((data: string) => void) | null = null;
+  onclose: ((code: number, reason: string) => void) | null = null;
+  onerror: ((error: unknown) => void) | null = null;
+
+  abstract send(data: string): void;
+  abstract close(): void;
+
+  protected emitOpen() {
+    if (this.state !== 'connecting') return;
+    this.state = 'open';
+    this.onopen?.();
+  }
+
+  protected emitClose(code: number, reason: string) {
+    if (this.state === 'closed') return;
+    this.state = 'closed';
+    this.onclose?.(code, reason);
+  }
+}
+
+// ---- WebSocket: talks to the Node signaling server ----
+
+export class WebSocketTransport extends BaseTransport {
+  readonly kind = 'websocket';
+  readonly needsHeartbeat = true;
+  private ws: WebSocket;
+
+  constructor(url: string) {
+    super();
+    this.ws = new WebSocket(url);
+    this.ws.binaryType = 'arraybuffer';
+    this.ws.onopen = () => this.emitOpen();
+    this.ws.onmessage = (ev) => this.onmessage?.(typeof ev.data === 'string' ? ev.data : String(ev.data));
+    this.ws.onclose = (ev) => this.emitClose(ev.code, ev.reason);
+    this.ws.onerror = (ev) => this.onerror?.(ev);
+  }
+
+  send(data: string) {
+    this.ws.send(data);
+  }
+
+  close() {
+    if (this.state === 'closed') return;
+    this.state = 'closing';
+    this.ws.close();
+  }
+}
+
+// ---- In-memory: a hub living in this JS context (tests, single-page demos) ----
+
+let defaultMemoryHub: SignalingHub | null = null;
+
+export function getMemoryHub(): SignalingHub {
+  if (!defaultMemoryHub) {
+    defaultMemoryHub = new SignalingHub();
+  }
+  return defaultMemoryHub;
+}
+
+export class InMemoryTransport extends BaseTransport {
+  readonly kind = 'memory';
+  readonly needsHeartbeat = false;
+  private connection: HubConnection | null = null;
+
+  constructor(hub: SignalingHub = getMemoryHub()) {
+    super();
+    // Deliver asynchronously in both directions, like a real network would
+    queueMicrotask(() => {
+      if (this.state !== 'connecting') return;
+      this.connection = hub.connect({
+        send: (message) => {
+          const payload = JSON.stringify(message);
+          queueMicrotask(() => {
+            if (this.state === 'open') this.onmessage?.(payload);
+          });
+        },
+        close: (code, reason) => queueMicrotask(() => this.emitClose(code, reason)),
+      });
+      this.emitOpen();
+    });
+  }
+
+  send(data: string) {
+    if (this.state !== 'open') throw new Error('In-memory transport is not open');
+    queueMicrotask(() => this.connection?.receive(data));
+  }
+
+  close() {
+    if (this.state === 'closed') return;
+    this.connection?.disconnect();
+    this.connection = null;
+    this.emitClose(1000, 'closed');
+  }
+}
+
+// ---- BroadcastChannel: same-browser multi-tab rooms with no server ----
+//
+// One tab at a time runs the hub, elected through the Web Locks API. Every transport
+// talks to it over a BroadcastChannel using the frames below. When the hub tab closes,
+// the next tab waiting on the lock takes over and announces `hub-ready`; open
+// transports then close so SignalingService reconnects and rejoins its room.
+
+type BroadcastFrame =
+  | { kind: 'connect'; from: string }
+  | { kind: 'frame'; from: string; data: string }
+  | { kind: 'disconnect'; from: string }
+  | { kind: 'accept'; to: string; hubId: string }
+  | { kind: 'deliver'; to: string; data: string }
+  | { kind: 'close'; to: string; code: number; reason: string }
+  | { kind: 'hub-ready'; hubId: string };
+
+function randomId() {
+  return typeof crypto !== 'undefined' && 'randomUUID' in crypto
+    ? crypto.randomUUID()
+    : Math.random().toString(36).slice(2);
+}
+
+const hubHosts = new Set<string>();
+
+// Compete for the hub lock of a channel; the winner serves the hub until the tab goes away
+function ensureBroadcastHub(channelName: string) {
+  if (hubHosts.has(channelName)) return;
+  hubHosts.add(channelName);
+
+  if (typeof navigator === 'undefined' || !navigator.locks) {
+    console.error('BroadcastChannel signaling needs the Web Locks API (secure context required)');
+    return;
+  }
+
+  navigator.locks.request(`${channelName}:hub`, () => {
+    const hubId = randomId();
+    const hub = new SignalingHub();
+    const channel = new BroadcastChannel(channelName);
+    const connections = new Map<string, HubConnection>();
+    const post = (frame: BroadcastFrame) => channel.postMessage(frame);
+
+    channel.onmessage = (ev: MessageEvent<BroadcastFrame>) => {
+      const frame = ev.data;
+      switch (frame.kind) {
+        case 'connect': {
+          connections.get(frame.from)?.disconnect();
+          const to = frame.from;
+          connections.set(to, hub.connect({
+            send: (message) => post({ kind: 'deliver', to, data: JSON.stringify(message) }),
+            close: (code, reason) => {
+              connections.delete(to);
+              post({ kind: 'close', to, code, reason });
+            },
+          }));
+          post({ kind: 'accept', to, hubId });
+          return;
+        }
+        case 'frame':
+          connections.get(frame.from)?.receive(frame.data);
+          return;
+        case 'disconnect':
+          connections.get(frame.from)?.disconnect();
+          connections.delete(frame.from);
+          return;
+      }
+    };
+
+    console.info('Serving BroadcastChannel signaling hub', hubId);
+    post({ kind: 'hub-ready', hubId });
+
+    // Hold the lock for the lifetime of this tab
+    return new Promise<never>(() => {});
+  }).catch((err) => {
+    console.error('Failed to run BroadcastChannel signaling hub:', err);
+  });
+}
+
+export class BroadcastChannelTransport extends BaseTransport {
+  readonly kind = 'broadcast';
+  readonly needsHeartbeat = false;
+  private id = randomId();
+  private channel: BroadcastChannel;
+  private hubId: string | null = null;
+  private handlePageHide = () => this.close();
+
+  constructor(channelName = 'watchtogether-signaling') {
+    super();
+    ensureBroadcastHub(channelName);
+    this.channel = new BroadcastChannel(channelName);
+    this.channel.onmessage = (ev: MessageEvent<BroadcastFrame>) => this.handleFrame(ev.data);
+    window.addEventListener('pagehide', this.handlePageHide);
+    this.post({ kind: 'connect', from: this.id });
+  }
+
+  private post(frame: BroadcastFrame) {
+    this.channel.postMessage(frame);
+  }
+
+  private handleFrame(frame: BroadcastFrame) {
+    switch (frame.kind) {
+      case 'hub-ready':
+        if (this.state === 'connecting') {
+          // The hub was not up yet when we first knocked
+          this.post({ kind: 'connect', from: this.id });
+        } else if (this.state === 'open' && frame.hubId !== this.hubId) {
+          this.teardown();
+          this.emitClose(HUB_RESTART_CLOSE_CODE, 'hub-restarted');
+        }
+        return;
+      case 'accept':
+        if (frame.to !== this.id) return;
+        this.hubId = frame.hubId;
+        this.emitOpen();
+        return;
+      case 'deliver':
+        if (frame.to !== this.id || this.state !== 'open') return;
+        this.onmessage?.(frame.data);
+        return;
+      case 'close':
+        if (frame.to !== this.id) return;
+        this.teardown();
+        this.emitClose(frame.code, frame.reason);
+        return;
+    }
+  }
+
+  send(data: string) {
+    if (this.state !== 'open') throw new Error('BroadcastChannel transport is not open');
+    this.post({ kind: 'frame', from: this.id, data });
+  }
+
+  private teardown() {
+    window.removeEventListener('pagehide', this.handlePageHide);
+    this.channel.close();
+  }
+
+  close() {
+    if (this.state === 'closed') return;
+    this.post({ kind: 'disconnect', from: this.id });
+    this.teardown();
+    this.emitClose(1000, 'closed');
+  }
+}
+
+// ---- Selection ----
+
+const TRANSPORT_KINDS: TransportKind[] = ['websocket', 'broadcast', 'memory'];
+
+export function isTransportKind(value: unknown): value is TransportKind {
+  return typeof value === 'string' && (TRANSPORT_KINDS as string[]).includes(value);
+}
+
+export function createTransportFactory(kind: TransportKind, url: string): TransportFactory {
+  switch (kind) {
+    case 'broadcast':
+      return () => new BroadcastChannelTransport();
+    case 'memory':
+      return () => new InMemoryTransport();
+    case 'websocket':
+    default:
+      return () => new WebSocketTransport(url);
+  }
+}
@@ -1,60 +1,215 @@
 // Fixed WebRTC utility functions for screen sharing and peer connections
+import type { IceConfig } from '../../shared/protocol';
+import { CONTENT_PROFILES, sortCodecs, type ContentType } from './content-mode';
+import { simulcastEncodings } from './simulcast';
+
+// Used until the signaling server sends an ice-config
+const DEFAULT_ICE_SERVERS: RTCIceServer[] = [
+  { urls: 'stun:stun.l.google.com:19302' },
+  { urls: 'stun:stun1.l.google.com:19302' },
+  { urls: 'stun:stun2.l.google.com:19302' },
+];
+
+// Debug switch: ?ice=relay or VITE_ICE_TRANSPORT_POLICY=relay forces TURN-only connectivity
+function resolveForceRelay(): boolean {
+  const fromUrl = typeof window !== 'undefined'
+    ? new URLSearchParams(window.location.search).get('ice')
+    : null;
+  return fromUrl === 'relay' || import.meta.env?.VITE_ICE_TRANSPORT_POLICY === 'relay';
+}
+
+const FORCE_RELAY = resolveForceRelay();
+
+// Candidates for peers we have not created yet are kept this long
+const ORPHAN_CANDIDATE_TTL_MS = 15000;
+
+// Connection recovery (host side): ICE restarts with exponential backoff, then full rebuilds
+const MAX_ICE_RESTARTS = 3;
+const ICE_RESTART_BASE_DELAY_MS = 2000;
+const MAX_REBUILDS = 2;
+
+type TunableReceiver = RTCRtpReceiver & { jitterBufferTarget?: number | null; playoutDelayHint?: number | null };
+
+// Ask the receiver for a jitter-buffer target: jitterBufferTarget (ms) where supported, Chromium's
+// older playoutDelayHint (s) otherwise. Browsers with neither keep their defaults.
+function applyPlayoutDelay(receiver: RTCRtpReceiver, delayMs: number) {
+  const tunable = receiver as TunableReceiver;
+  // Unsupported attributes read as undefined; supported ones start out null
+  if (tunable.jitterBufferTarget !== undefined) {
+    tunable.jitterBufferTarget = delayMs;
+  } else if (tunable.playoutDelayHint !== undefined) {
+    tunable.playoutDelayHint = delayMs / 1000;
+  }
+}
+
+// How the host's peer connection reaches the viewer again when ICE breaks or tracks change
+export interface RecoveryHandlers {
+  // Send an offer (ICE restart or renegotiation) over the existing signaling channel
+  sendOffer: (offer: RTCSessionDescriptionInit, session: number) => void;
+  // ICE restarts ran out: tear the connection down and build a fresh one
+  rebuild: () => void;
+  // Rebuilds ran out too
+  giveUp?: () => void;
+}
 
 export interface PeerConnection {
   id: string;
   connection: RTCPeerConnection;
   dataChannel?: RTCDataChannel;
+  // Remote candidates that arrived before setRemoteDescription
+  pendingCandidates: RTCIceCandidateInit[];
+  createdAt: number;
+  connectedAt?: number;
+  // Generation of this connection; a rebuilt connection gets a new session
+  session: number;
+  recovery?: RecoveryHandlers;
+  // Stream whose id the viewer sees on our tracks (host side)
+  outboundStream?: MediaStream;
+  // Video goes out as simulcast layers (only towards the SFU; browsers cannot receive it)
+  simulcast?: boolean;
+  iceRestarts: number;
+  restartTimer?: ReturnType<typeof setTimeout>;
+}
+
+// Counters for ICE candidate handling and connection outcomes. "buffered" and
+// "orphansAdopted" count candidates that would have been dropped without buffering.
+export interface ConnectionMetrics {
+  candidatesReceived: number;
+  candidatesApplied: number;
+  candidatesBuffered: number;
+  candidatesFailed: number;
+  orphansHeld: number;
+  orphansAdopted: number;
+  orphansExpired: number;
+  connectionsAttempted: number;
+  connectionsSucceeded: number;
+  connectionsFailed: number;
+  // Mean time from peer creation to 'connected', in ms
+  averageTimeToConnectMs: number | null;
+}
+
+// Limits applied to the first video encoding of a host-side sender
+export interface EncodingLimits {
+  // Bits per second
+  maxBitrate?: number;
+  scaleResolutionDownBy?: number;
+  maxFramerate?: number;
+}
+
+interface OrphanCandidate {
+  candidate: RTCIceCandidateInit;
+  receivedAt: number;
 }
 
 export class WebRTCManager {
   private peerConnections: Map<string, PeerConnection> = new Map();
+  private orphanCandidates: Map<string, OrphanCandidate[]> = new Map();
+  private metrics: ConnectionMetrics = {
+    candidatesReceived: 0,
+    candidatesApplied: 0,
+    candidatesBuffered: 0,
+    candidatesFailed: 0,
+    orphansHeld: 0,
+    orphansAdopted: 0,
+    orphansExpired: 0,
+    connectionsAttempted: 0,
+    connectionsSucceeded: 0,
+    connectionsFailed: 0,
+    averageTimeToConnectMs: null,
+  };
+  private totalTimeToConnectMs = 0;
+  private sessionCounter = 0;
+  private rebuilds: Map<string, number> = new Map();
   private localStream: MediaStream | null = null;
+  // Sharing mode the capture and encoders are tuned for
+  private contentType: ContentType = 'detail';
+  // Viewer side: jitter-buffer target for everything we receive; null keeps browser defaults
+  private playoutDelayMs: number | null = null;
   private configuration: RTCConfiguration = {
-    iceServers: [
-      { urls: 'stun:stun.l.google.com:19302' },
-      { urls: 'stun:stun1.l.google.com:19302' },
-      { urls: 'stun:stun2.l.google.com:19302' },
-    ],
+    iceServers: DEFAULT_ICE_SERVERS,
+    iceTransportPolicy: FORCE_RELAY ? 'relay' : 'all',
   };
 
-  // Start screen and audio capture for host
-  async startScreenShare(): Promise<MediaStream> {
-    try {
-      console.log('Requesting screen share...');
-      
-      // Try to get screen with audio first
-      let screenStream: MediaStream;
+  // Applies to receivers we already have and to those of connections made later
+  setPlayoutDelay(delayMs: number) {
+    this.playoutDelayMs = delayMs;
+    this.peerConnections.forEach((peer) => {
+      peer.connection.getReceivers().forEach((receiver) => applyPlayoutDelay(receiver, delayMs));
+    });
+  }
+
+  // Apply ICE servers (and fresh TURN credentials) handed out by the signaling server
+  setIceConfig(config: IceConfig) {
+    this.configuration = {
+      ...this.configuration,
+      iceServers: config.iceServers.length > 0 ? config.iceServers : DEFAULT_ICE_SERVERS,
+      iceTransportPolicy: FORCE_RELAY ? 'relay' : (config.iceTransportPolicy ?? 'all'),
+    };
+
+    // Existing peers pick up renewed credentials on their next ICE gathering
+    this.peerConnections.forEach((peer) => {
       try {
-        screenStream = await navigator.mediaDevices.getDisplayMedia({
-          video: {
-            cursor: 'always',
-          } as any,
-          audio: true,
-        });
-      } catch (err) {
-        console.warn('Failed to get display media with audio, trying without:', err);
-        // Fallback to video only
-        screenStream = await navigator.mediaDevices.getDisplayMedia({
-          video: {
-            cursor: 'always',
-          } as any,
-          audio: false,
-        });
+        peer.connection.setConfiguration(this.configuration);
+      } catch (error) {
+        console.warn('Failed to update ICE configuration for peer:', peer.id, error);
       }
+    });
+  }
 
-      console.log('Screen share obtained, tracks:', 
-        screenStream.getTracks().map(t => `${t.kind}: ${t.label}`)
-      );
+  getIceConfiguration(): RTCConfiguration {
+    return this.configuration;
+  }
 
-      this.localStream = screenStream;
-      return screenStream;
+  // Ask the user for a screen, window or tab, preferring one with audio
+  private async captureDisplay(): Promise<MediaStream> {
+    // `cursor` is not in lib.dom's MediaTrackConstraints yet
+    const video: MediaTrackConstraints & { cursor?: 'always' | 'motion' | 'never' } = {
+      cursor: 'always',
+      frameRate: CONTENT_PROFILES[this.contentType].frameRate,
+    };
+
+    let screenStream: MediaStream;
+    try {
+      screenStream = await navigator.mediaDevices.getDisplayMedia({ video, audio: true });
+    } catch (err) {
+      console.warn('Failed to get display media with audio, trying without:', err);
+      // Fallback to video only
+      screenStream = await navigator.mediaDevices.getDisplayMedia({ video, audio: false });
+    }
+
+    console.log('Screen share obtained, tracks:', 
+      screenStream.getTracks().map(t => `${t.kind}: ${t.label}`)
+    );
+    screenStream.getVideoTracks().forEach((track) => {
+      track.contentHint = CONTENT_PROFILES[this.contentType].contentHint;
+    });
+    return screenStream;
+  }
+
+  // Start screen and audio capture for host
+  async startScreenShare(): Promise<MediaStream> {
+    try {
+      console.log('Requesting screen share...');
+      this.localStream = await this.captureDisplay();
+      return this.localStream;
     } catch (error) {
       console.error('Error starting screen share:', error);
       throw error;
     }
   }
 
-  // Stop screen sharing
+  // Pick a new source while sharing and swap it in on every viewer's connection
+  async changeSource(): Promise<MediaStream> {
+    const stream = await this.captureDisplay();
+    const previous = this.localStream;
+    this.localStream = stream;
+
+    await this.publishLocalStream();
+    previous?.getTracks().forEach((track) => track.stop());
+    return stream;
+  }
+
+  // Stop screen sharing; peer connections stay up with empty senders
   stopScreenShare() {
     if (this.localStream) {
       console.log('Stopping screen share');
@@ -63,16 +218,87 @@ export class WebRTCManager {
         console.log('Stopped track:', track.kind, track.label);
       });
       this.localStream = null;
+
+      this.peerConnections.forEach((peer) => {
+        peer.connection.getSenders().forEach((sender) => {
+          if (!sender.track) return;
+          sender.replaceTrack(null).catch((error) => {
+            console.warn('Failed to detach track for peer:', peer.id, error);
+          });
+        });
+      });
+    }
+  }
+
+  // Put the current local stream on every existing host-side peer. Existing senders get
+  // the new tracks in place; an audio sender is added or removed (with a renegotiation)
+  // when the source gains or loses audio.
+  async publishLocalStream() {
+    const stream = this.localStream;
+    if (!stream) return;
+
+    for (const peer of this.peerConnections.values()) {
+      if (!peer.recovery) continue;
+
+      let needsOffer = false;
+      const transceivers = peer.connection
+        .getTransceivers()
+        .filter((t) => t.currentDirection !== 'stopped');
+
+      for (const kind of ['video', 'audio']) {
+        const track = stream.getTracks().find((t) => t.kind === kind) ?? null;
+        const transceiver = transceivers.find((t) => t.receiver.track.kind === kind);
+        try {
+          if (track && transceiver) {
+            await transceiver.sender.replaceTrack(track);
+            // A sender taken out by removeTrack has to be switched back on
+            if (transceiver.direction !== 'sendrecv') {
+              transceiver.direction = 'sendrecv';
+              needsOffer = true;
+            }
+          } else if (track) {
+            // Reuse the msid the viewer already knows so the track lands in the same stream
+            this.addOutboundTrack(peer.connection, track, peer.outboundStream ?? stream, peer.simulcast);
+            peer.outboundStream ??= stream;
+            needsOffer = true;
+          } else if (transceiver?.sender.track) {
+            peer.connection.removeTrack(transceiver.sender);
+            needsOffer = true;
+          }
+        } catch (error) {
+          console.error('Failed to publish track to peer:', peer.id, kind, error);
+        }
+      }
+
+      if (needsOffer) {
+        this.applyCodecPreferences(peer.connection);
+        try {
+          const offer = await this.createOffer(peer.id);
+          peer.recovery.sendOffer(offer, peer.session);
+        } catch (error) {
+          console.error('Failed to renegotiate with peer:', peer.id, error);
+        }
+      }
     }
   }
 
+  // Send a stream we did not capture ourselves: what a relay viewer receives from its parent,
+  // or a watch-party video's captureStream(). It takes the place of a screen capture, so
+  // peers are connected and updated exactly like a sharing host's.
+  async publishStream(stream: MediaStream) {
+    this.localStream = stream;
+    await this.publishLocalStream();
+  }
+
   // Create peer connection for host (broadcaster)
   createHostConnection(
     peerId: string,
     onIceCandidate: (candidate: RTCIceCandidate) => void,
-    onConnectionStateChange: (state: string) => void
+    onConnectionStateChange: (state: string) => void,
+    recovery?: RecoveryHandlers,
+    options: { simulcast?: boolean } = {}
   ): RTCPeerConnection {
-    console.log('Creating host connection for peer:', peerId);
+    console.log('Creating host connection for peer:', peerId, options.simulcast ? '(simulcast)' : '');
     
     const peerConnection = new RTCPeerConnection(this.configuration);
 
@@ -84,13 +310,15 @@ export class WebRTCManager {
       
       this.localStream.getTracks().forEach((track) => {
         if (this.localStream) {
-          peerConnection.addTrack(track, this.localStream);
+          this.addOutboundTrack(peerConnection, track, this.localStream, options.simulcast);
           console.log('Added track:', track.kind, track.label);
         }
       });
     } else {
       console.warn('No local stream available when creating host connection');
     }
+    this.applyCodecPreferences(peerConnection);
+    void this.applyDegradationPreference(peerConnection);
 
     // Create data channel for chat
     const dataChannel = peerConnection.createDataChannel('chat');
@@ -126,33 +354,52 @@ export class WebRTCManager {
     // Handle connection state changes
     peerConnection.onconnectionstatechange = () => {
       console.log('Connection state for', peerId, ':', peerConnection.connectionState);
+      this.recordConnectionState(peerId, peerConnection);
+      this.handleRecovery(peerId, peerConnection);
       onConnectionStateChange(peerConnection.connectionState);
     };
 
-    this.peerConnections.set(peerId, {
+    this.registerPeer({
       id: peerId,
       connection: peerConnection,
       dataChannel,
+      pendingCandidates: [],
+      createdAt: Date.now(),
+      session: ++this.sessionCounter,
+      recovery,
+      outboundStream: this.localStream ?? undefined,
+      simulcast: options.simulcast,
+      iceRestarts: 0,
     });
 
     return peerConnection;
   }
 
+  private addOutboundTrack(connection: RTCPeerConnection, track: MediaStreamTrack, stream: MediaStream, simulcast?: boolean) {
+    if (simulcast && track.kind === 'video') {
+      connection.addTransceiver(track, { direction: 'sendrecv', streams: [stream], sendEncodings: simulcastEncodings() });
+    } else {
+      connection.addTrack(track, stream);
+    }
+  }
+
   // Create peer connection for viewer
   createViewerConnection(
     peerId: string,
     onTrack: (stream: MediaStream) => void,
     onDataChannel: (channel: RTCDataChannel) => void,
     onIceCandidate: (candidate: RTCIceCandidate) => void,
-    onConnectionStateChange: (state: string) => void
+    onConnectionStateChange: (state: string) => void,
+    session = 0
   ): RTCPeerConnection {
-    console.log('Creating viewer connection for peer:', peerId);
+    console.log('Creating viewer connection for peer:', peerId, 'session:', session);
     
     const peerConnection = new RTCPeerConnection(this.configuration);
 
     // Handle incoming tracks
     peerConnection.ontrack = (event) => {
       console.log('Track received:', event.track.kind, event.streams.length, 'streams');
+      if (this.playoutDelayMs !== null) applyPlayoutDelay(event.receiver, this.playoutDelayMs);
       if (event.streams && event.streams[0]) {
         console.log('Stream tracks:', event.streams[0].getTracks().map(t => `${t.kind}: ${t.label}`));
         onTrack(event.streams[0]);
@@ -195,26 +442,32 @@ export class WebRTCManager {
     // Handle connection state changes
     peerConnection.onconnectionstatechange = () => {
       console.log('Viewer connection state:', peerConnection.connectionState);
+      this.recordConnectionState(peerId, peerConnection);
       onConnectionStateChange(peerConnection.connectionState);
     };
 
-    this.peerConnections.set(peerId, {
+    this.registerPeer({
       id: peerId,
       connection: peerConnection,
+      pendingCandidates: [],
+      createdAt: Date.now(),
+      session,
+      iceRestarts: 0,
     });
 
     return peerConnection;
   }
 
   // Create offer (host side)
-  async createOffer(peerId: string): Promise<RTCSessionDescriptionInit> {
+  async createOffer(peerId: string, options: { iceRestart?: boolean } = {}): Promise<RTCSessionDescriptionInit> {
     const peer = this.peerConnections.get(peerId);
     if (!peer) throw new Error('Peer connection not found');
 
-    console.log('Creating offer for peer:', peerId);
+    console.log('Creating offer for peer:', peerId, options.iceRestart ? '(ICE restart)' : '');
     const offer = await peer.connection.createOffer({
       offerToReceiveAudio: true,
       offerToReceiveVideo: true,
+      iceRestart: options.iceRestart,
     });
     
     console.log('Setting local description (offer)');
@@ -237,7 +490,7 @@ export class WebRTCManager {
     return answer;
   }
 
-  // Set remote description
+  // Set remote description, then apply candidates that raced ahead of it
   async setRemoteDescription(
     peerId: string,
     description: RTCSessionDescriptionInit
@@ -249,24 +502,264 @@ export class WebRTCManager {
     await peer.connection.setRemoteDescription(
       new RTCSessionDescription(description)
     );
+
+    await this.flushPendingCandidates(peer);
   }
 
-  // Add ICE candidate
+  // Add ICE candidate, buffering it until the peer and its remote description exist
   async addIceCandidate(peerId: string, candidate: RTCIceCandidateInit) {
+    if (!candidate) return;
+    this.metrics.candidatesReceived++;
+
     const peer = this.peerConnections.get(peerId);
     if (!peer) {
-      console.warn('Peer connection not found for ICE candidate:', peerId);
+      this.pruneOrphanCandidates();
+      const held = this.orphanCandidates.get(peerId) ?? [];
+      held.push({ candidate, receivedAt: Date.now() });
+      this.orphanCandidates.set(peerId, held);
+      this.metrics.orphansHeld++;
+      return;
+    }
+
+    if (!peer.connection.remoteDescription) {
+      peer.pendingCandidates.push(candidate);
+      this.metrics.candidatesBuffered++;
       return;
     }
 
+    await this.applyCandidate(peer, candidate);
+  }
+
+  private async applyCandidate(peer: PeerConnection, candidate: RTCIceCandidateInit) {
     try {
-      console.log('Adding ICE candidate for peer:', peerId);
+      console.log('Adding ICE candidate for peer:', peer.id);
       await peer.connection.addIceCandidate(new RTCIceCandidate(candidate));
+      this.metrics.candidatesApplied++;
     } catch (error) {
+      this.metrics.candidatesFailed++;
       console.error('Error adding ICE candidate:', error);
     }
   }
 
+  private async flushPendingCandidates(peer: PeerConnection) {
+    if (peer.pendingCandidates.length === 0) return;
+
+    const pending = peer.pendingCandidates;
+    peer.pendingCandidates = [];
+    for (const candidate of pending) {
+      await this.applyCandidate(peer, candidate);
+    }
+  }
+
+  private registerPeer(peer: PeerConnection) {
+    this.peerConnections.set(peer.id, peer);
+    this.metrics.connectionsAttempted++;
+
+    // Adopt candidates that arrived before this peer existed
+    this.pruneOrphanCandidates();
+    const orphans = this.orphanCandidates.get(peer.id);
+    if (orphans) {
+      this.orphanCandidates.delete(peer.id);
+      peer.pendingCandidates.push(...orphans.map((o) => o.candidate));
+      this.metrics.orphansAdopted += orphans.length;
+    }
+  }
+
+  private pruneOrphanCandidates() {
+    const cutoff = Date.now() - ORPHAN_CANDIDATE_TTL_MS;
+    this.orphanCandidates.forEach((held, peerId) => {
+      const fresh = held.filter((o) => o.receivedAt >= cutoff);
+      this.metrics.orphansExpired += held.length - fresh.length;
+      if (fresh.length > 0) {
+        this.orphanCandidates.set(peerId, fresh);
+      } else {
+        this.orphanCandidates.delete(peerId);
+      }
+    });
+  }
+
+  private recordConnectionState(peerId: string, connection: RTCPeerConnection) {
+    const peer = this.peerConnections.get(peerId);
+    if (!peer || peer.connection !== connection) return;
+
+    if (connection.connectionState === 'connected' && !peer.connectedAt) {
+      peer.connectedAt = Date.now();
+      this.metrics.connectionsSucceeded++;
+      this.totalTimeToConnectMs += peer.connectedAt - peer.createdAt;
+      this.metrics.averageTimeToConnectMs = Math.round(
+        this.totalTimeToConnectMs / this.metrics.connectionsSucceeded
+      );
+    } else if (connection.connectionState === 'failed') {
+      this.metrics.connectionsFailed++;
+    }
+  }
+
+  // Host side: retry ICE with backoff while the link is down, rebuild when that runs out
+  private handleRecovery(peerId: string, connection: RTCPeerConnection) {
+    const peer = this.peerConnections.get(peerId);
+    if (!peer || peer.connection !== connection || !peer.recovery) return;
+
+    const state = connection.connectionState;
+    if (state === 'connected') {
+      if (peer.restartTimer) clearTimeout(peer.restartTimer);
+      peer.restartTimer = undefined;
+      peer.iceRestarts = 0;
+      this.rebuilds.delete(peerId);
+      return;
+    }
+    if ((state !== 'disconnected' && state !== 'failed') || peer.restartTimer) return;
+
+    if (peer.iceRestarts >= MAX_ICE_RESTARTS) {
+      const rebuilds = this.rebuilds.get(peerId) ?? 0;
+      if (rebuilds >= MAX_REBUILDS) {
+        console.warn('Giving up on peer after rebuilds:', peerId);
+        peer.recovery.giveUp?.();
+        return;
+      }
+      console.warn('ICE restarts exhausted, rebuilding connection for peer:', peerId);
+      this.rebuilds.set(peerId, rebuilds + 1);
+      peer.recovery.rebuild();
+      return;
+    }
+
+    const delay = ICE_RESTART_BASE_DELAY_MS * 2 ** peer.iceRestarts;
+    peer.restartTimer = setTimeout(() => {
+      peer.restartTimer = undefined;
+      void this.restartIce(peer);
+    }, delay);
+  }
+
+  private async restartIce(peer: PeerConnection) {
+    const current = this.peerConnections.get(peer.id);
+    if (current !== peer) return;
+
+    const state = peer.connection.connectionState;
+    if (state !== 'disconnected' && state !== 'failed') return;
+
+    peer.iceRestarts++;
+    try {
+      const offer = await this.createOffer(peer.id, { iceRestart: true });
+      peer.recovery?.sendOffer(offer, peer.session);
+    } catch (error) {
+      console.error('ICE restart failed for peer:', peer.id, error);
+    }
+
+    // If this attempt does not bring the link back, the next state check schedules another
+    peer.restartTimer = setTimeout(() => {
+      peer.restartTimer = undefined;
+      this.handleRecovery(peer.id, peer.connection);
+    }, ICE_RESTART_BASE_DELAY_MS * 2 ** peer.iceRestarts);
+  }
+
+  hasPeer(peerId: string): boolean {
+    return this.peerConnections.has(peerId);
+  }
+
+  getSession(peerId: string): number | undefined {
+    return this.peerConnections.get(peerId)?.session;
+  }
+
+  // Cap what we send to one viewer; takes effect without renegotiation
+  async setVideoEncoding(peerId: string, limits: EncodingLimits): Promise<boolean> {
+    const peer = this.peerConnections.get(peerId);
+    const sender = peer && this.videoTransceiver(peer.connection)?.sender;
+    if (!sender) return false;
+
+    const params = sender.getParameters();
+    // Encodings stay empty until the first negotiation completes
+    if (!params.encodings || params.encodings.length === 0) return false;
+    // Simulcast layers keep their own limits; receivers pick a layer instead
+    if (params.encodings.length > 1) return true;
+
+    params.encodings[0] = { ...params.encodings[0], ...limits };
+    try {
+      await sender.setParameters(params);
+      return true;
+    } catch (error) {
+      console.error('Failed to set encoding parameters for peer:', peerId, error);
+      return false;
+    }
+  }
+
+  getContentType(): ContentType {
+    return this.contentType;
+  }
+
+  // Retune capture and every viewer's encoder for motion or detail. Codec order only
+  // changes through negotiation, so existing viewers get a fresh offer.
+  async setContentType(type: ContentType) {
+    if (type === this.contentType) return;
+    this.contentType = type;
+    const profile = CONTENT_PROFILES[type];
+
+    for (const track of this.localStream?.getVideoTracks() ?? []) {
+      track.contentHint = profile.contentHint;
+      try {
+        await track.applyConstraints({ frameRate: profile.frameRate });
+      } catch (error) {
+        console.warn('Failed to apply frame rate constraints:', error);
+      }
+    }
+
+    for (const peer of this.peerConnections.values()) {
+      if (!peer.recovery) continue;
+      this.applyCodecPreferences(peer.connection);
+      await this.applyDegradationPreference(peer.connection);
+      if (peer.connection.connectionState !== 'connected') continue;
+      try {
+        const offer = await this.createOffer(peer.id);
+        peer.recovery.sendOffer(offer, peer.session);
+      } catch (error) {
+        console.error('Failed to renegotiate codecs with peer:', peer.id, error);
+      }
+    }
+  }
+
+  private videoTransceiver(connection: RTCPeerConnection): RTCRtpTransceiver | undefined {
+    return connection
+      .getTransceivers()
+      .find((t) => t.currentDirection !== 'stopped' && t.receiver.track.kind === 'video');
+  }
+
+  private applyCodecPreferences(connection: RTCPeerConnection) {
+    const transceiver = this.videoTransceiver(connection);
+    const codecs = RTCRtpReceiver.getCapabilities?.('video')?.codecs;
+    if (!transceiver || !codecs || typeof transceiver.setCodecPreferences !== 'function') return;
+    try {
+      transceiver.setCodecPreferences(sortCodecs(codecs, CONTENT_PROFILES[this.contentType].codecs));
+    } catch (error) {
+      console.warn('Failed to set codec preferences:', error);
+    }
+  }
+
+  private async applyDegradationPreference(connection: RTCPeerConnection) {
+    const sender = this.videoTransceiver(connection)?.sender;
+    if (!sender) return;
+    const params = sender.getParameters();
+    params.degradationPreference = CONTENT_PROFILES[this.contentType].degradationPreference;
+    try {
+      await sender.setParameters(params);
+    } catch (error) {
+      // Not every browser lets this change; the content hint still steers the encoder
+      console.warn('Failed to set degradation preference:', error);
+    }
+  }
+
+  getPeerIds(): string[] {
+    return Array.from(this.peerConnections.keys());
+  }
+
+  // Raw RTCStatsReport for one peer; null once the peer is gone
+  async getStats(peerId: string): Promise<RTCStatsReport | null> {
+    const peer = this.peerConnections.get(peerId);
+    if (!peer || peer.connection.connectionState === 'closed') return null;
+    return peer.connection.getStats();
+  }
+
+  getMetrics(): ConnectionMetrics {
+    return { ...this.metrics };
+  }
+
   // Send message through data channel
   sendMessage(peerId: string, message: string) {
     const peer = this.peerConnections.get(peerId);
@@ -283,20 +776,25 @@ export class WebRTCManager {
     const peer = this.peerConnections.get(peerId);
     if (peer) {
       console.log('Closing peer connection:', peerId);
+      if (peer.restartTimer) clearTimeout(peer.restartTimer);
       peer.dataChannel?.close();
       peer.connection.close();
       this.peerConnections.delete(peerId);
     }
+    this.orphanCandidates.delete(peerId);
   }
 
   // Close all connections
   closeAllConnections() {
     console.log('Closing all peer connections');
     this.peerConnections.forEach((peer) => {
+      if (peer.restartTimer) clearTimeout(peer.restartTimer);
       peer.dataChannel?.close();
       peer.connection.close();
     });
     this.peerConnections.clear();
+    this.rebuilds.clear();
+    this.orphanCandidates.clear();
     this.stopScreenShare();
   }
 
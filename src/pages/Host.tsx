@@ -1,26 +1,108 @@
-/* eslint-disable @typescript-eslint/no-explicit-any */
-import { useState, useEffect, useCallback } from 'react';
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react';
 import { useParams, useNavigate } from 'react-router-dom';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { toast } from 'sonner';
-import { Monitor, MonitorOff, Copy, Users, ArrowLeft } from 'lucide-react';
-import Chat, { ChatMessage } from '@/components/Chat';
+import { Monitor, MonitorOff, Copy, Users, ArrowLeft, RefreshCw } from 'lucide-react';
+import Chat from '@/components/Chat';
 import VideoPlayer from '@/components/VideoPlayer';
+import StatsPanel from '@/components/StatsPanel';
+import RelayTreeView from '@/components/RelayTreeView';
+import RoomAccessPanel from '@/components/RoomAccessPanel';
+import ParticipantList from '@/components/ParticipantList';
+import WatchPartySource from '@/components/WatchPartySource';
 import { WebRTCManager } from '@/lib/webrtc';
-import { signalingService, generatePeerId } from '@/lib/signaling';
+import { StatsCollector } from '@/lib/stats';
+import { AdaptiveQualityController } from '@/lib/adaptive';
+import { ContentDetector, type ContentType, type SharingMode } from '@/lib/content-mode';
+import { clockSync } from '@/lib/clock';
+import { ChatService } from '@/lib/chat';
+import { PLAYBACK_HEARTBEAT_MS, readPlayback } from '@/lib/playback';
+import { useConnectionStats } from '@/hooks/use-connection-stats';
+import { useAdaptiveQuality } from '@/hooks/use-adaptive-quality';
+import { useRoster } from '@/hooks/use-roster';
+import { useChatHistory, useChatMessages } from '@/hooks/use-chat';
+import {
+  signalingService,
+  generatePeerId,
+  resolveRequestedRoomMode,
+  SFU_PEER_ID,
+  type Admission,
+  type ChatRef,
+  type KnockMessage,
+  type ModerationAction,
+  type PlaybackSource,
+  type RoomMode,
+  type SignalingMessage,
+  type TreeNode,
+} from '@/lib/signaling';
+
+type CapturableVideo = HTMLVideoElement & {
+  captureStream?: () => MediaStream;
+  mozCaptureStream?: () => MediaStream;
+};
+
+const ROOM_MODE_LABELS: Record<RoomMode, string> = {
+  mesh: 'Mesh (direct to each viewer)',
+  sfu: 'SFU (server forwards the stream)',
+  tree: 'Relay tree (viewers forward to viewers)',
+};
 
 export default function Host() {
   const { roomId } = useParams<{ roomId: string }>();
   const navigate = useNavigate();
   const [isSharing, setIsSharing] = useState(false);
   const [localStream, setLocalStream] = useState<MediaStream | null>(null);
-  const [viewerCount, setViewerCount] = useState(0);
-  const [messages, setMessages] = useState<ChatMessage[]>([]);
   const [webrtcManager] = useState(() => new WebRTCManager());
+  const [statsCollector] = useState(() => new StatsCollector(webrtcManager));
+  const statsHistory = useConnectionStats(statsCollector);
+  const [qualityController] = useState(() => new AdaptiveQualityController(webrtcManager, statsCollector));
+  const viewerQuality = useAdaptiveQuality(qualityController);
   const [peerId] = useState(() => generatePeerId());
+  const [chat] = useState(() => new ChatService(peerId));
+  const messages = useChatMessages(chat);
+  const chatHistory = useChatHistory(chat);
   const [connectedPeers, setConnectedPeers] = useState<Set<string>>(new Set());
+  // Viewers who joined before sharing started; they get an offer once it does
+  const [waitingViewers, setWaitingViewers] = useState<Set<string>>(new Set());
+  // The latest waiting viewers for connectAudience, which runs after awaiting the screen picker
+  // or the file player, when the render it was created in is long stale
+  const waitingViewersRef = useRef(waitingViewers);
+  const [sharingMode, setSharingMode] = useState<SharingMode>('auto');
+  const [detectedContent, setDetectedContent] = useState<ContentType | null>(null);
+  const connectViewerRef = useRef<((viewerId: string) => Promise<void>) | null>(null);
+  // In SFU and tree rooms we are not connected to every viewer and learn about them from signaling
+  const [roomMode, setRoomMode] = useState<RoomMode>('mesh');
+  const roomModeRef = useRef<RoomMode>('mesh');
+  const [roomViewers, setRoomViewers] = useState<Set<string>>(new Set());
+  const viewerCount = roomMode === 'mesh' ? connectedPeers.size : roomViewers.size;
+  // Everyone in the room, for moderation: in mesh rooms that includes viewers still waiting for the stream
+  const participants = roomMode === 'mesh' ? [...new Set([...connectedPeers, ...waitingViewers])] : [...roomViewers];
+  const [treeNodes, setTreeNodes] = useState<TreeNode[]>([]);
+  // Who may join, and the viewers waiting for our approval
+  const [roomAccess, setRoomAccess] = useState<{ passcode: string; admission: Admission }>({
+    passcode: '',
+    admission: 'open',
+  });
+  const [knocks, setKnocks] = useState<Pick<KnockMessage, 'userId' | 'name'>[]>([]);
+  // Display names of everyone in the room, from the server's roster
+  const roster = useRoster();
+  const names = useMemo(() => new Map(roster.map((p) => [p.userId, p.name])), [roster]);
+  // Viewers whose chat we muted, as the server's roster has it (so a reload keeps them); the ref
+  // filters their data-channel messages in mesh rooms
+  const mutedViewers = useMemo(() => new Set(roster.filter((p) => p.muted).map((p) => p.userId)), [roster]);
+  const mutedViewersRef = useRef(mutedViewers);
+  // Glass-to-glass latency each viewer last reported
+  const [viewerLatency, setViewerLatency] = useState<Map<string, number>>(new Map());
+  // Watch party: what our <video> plays instead of a screen capture
+  const [watchSource, setWatchSource] = useState<PlaybackSource | null>(null);
+  const [watchSrc, setWatchSrc] = useState<string | null>(null);
+  const watchSourceRef = useRef<PlaybackSource | null>(null);
+  const partyVideoRef = useRef<CapturableVideo>(null);
+  const playbackSeqRef = useRef(0);
 
   useEffect(() => {
     if (!roomId) {
@@ -28,61 +110,124 @@ export default function Host() {
       return;
     }
 
-    // Create room
-    signalingService.createRoom(roomId, peerId);
+    // Our clock is the host clock viewers measure against
+    clockSync.setIsHost(true);
 
-    // Setup signaling handlers
-     
-    const handleJoin = async (message: any) => {
-      console.log('Viewer joined:', message.userId);
-      
-      if (!isSharing) {
-        toast.error('Please start screen sharing first');
-        return;
-      }
+    // Create room (starting the service lets it reconnect and rejoin on its own)
+    signalingService.start();
+    signalingService.setDisplayName('Host');
+    signalingService.createRoom(roomId, peerId, resolveRequestedRoomMode());
+    chat.setName('Host');
+    chat.join(roomId);
+
+    const removePeer = (viewerId: string) => {
+      setConnectedPeers((prev) => {
+        const newSet = new Set(prev);
+        newSet.delete(viewerId);
+        return newSet;
+      });
+    };
 
+    const removeWaiting = (viewerId: string) => {
+      setWaitingViewers((prev) => {
+        if (!prev.has(viewerId)) return prev;
+        const newSet = new Set(prev);
+        newSet.delete(viewerId);
+        return newSet;
+      });
+    };
+
+    // Tree rooms: the viewers the server told us to send to directly
+    const treeChildren = new Set<string>();
+
+    // Build a peer connection for a viewer and send it an offer; also used to rebuild broken ones
+    const connectViewer = async (viewerId: string) => {
       try {
         // Create peer connection for new viewer
         const peerConnection = webrtcManager.createHostConnection(
-          message.userId,
+          viewerId,
           (candidate) => {
-            signalingService.sendIceCandidate(roomId, message.userId, candidate);
+            signalingService.sendIceCandidate(roomId, viewerId, candidate);
           },
           (state) => {
-            console.log(`Connection state for ${message.userId}:`, state);
+            console.log(`Connection state for ${viewerId}:`, state);
             if (state === 'connected') {
-              setConnectedPeers((prev) => new Set(prev).add(message.userId));
-              setViewerCount((prev) => prev + 1);
+              setConnectedPeers((prev) => new Set(prev).add(viewerId));
             } else if (state === 'disconnected' || state === 'failed') {
-              setConnectedPeers((prev) => {
-                const newSet = new Set(prev);
-                newSet.delete(message.userId);
-                return newSet;
-              });
-              setViewerCount((prev) => Math.max(0, prev - 1));
+              removePeer(viewerId);
             }
-          }
+          },
+          {
+            sendOffer: (offer, session) => {
+              signalingService.sendOffer(roomId, viewerId, offer, session);
+            },
+            rebuild: () => {
+              webrtcManager.closePeerConnection(viewerId);
+              void connectViewer(viewerId);
+            },
+            giveUp: () => {
+              toast.error(viewerId === SFU_PEER_ID ? 'Lost connection to the SFU' : 'Lost connection to a viewer');
+            },
+          },
+          // The SFU forwards each viewer the layer it asks for
+          { simulcast: viewerId === SFU_PEER_ID }
         );
 
-        // Setup data channel for chat
-        const dataChannel = webrtcManager.getDataChannel(message.userId);
+        // Setup data channel for clock sync and chat
+        const dataChannel = webrtcManager.getDataChannel(viewerId);
         if (dataChannel) {
+          if (viewerId !== SFU_PEER_ID) chat.addChannel(viewerId, dataChannel);
           dataChannel.onmessage = (event) => {
-            const chatMessage: ChatMessage = JSON.parse(event.data);
-            setMessages((prev) => [...prev, chatMessage]);
+            if (clockSync.handleChannelMessage(dataChannel, event.data)) return;
+            // The server drops a muted viewer's chat; this path does not go through it
+            if (mutedViewersRef.current.has(viewerId)) return;
+            chat.handleChannelMessage(viewerId, event.data);
           };
         }
 
         // Create and send offer
-        const offer = await webrtcManager.createOffer(message.userId);
-        signalingService.sendOffer(roomId, message.userId, offer);
+        const offer = await webrtcManager.createOffer(viewerId);
+        signalingService.sendOffer(roomId, viewerId, offer, webrtcManager.getSession(viewerId));
       } catch (error) {
         console.error('Error handling viewer join:', error);
         toast.error('Failed to connect to viewer');
       }
     };
+    connectViewerRef.current = connectViewer;
+
+    // Setup signaling handlers
+    const handleRoomJoined = (message: SignalingMessage<'room-joined'>) => {
+      const mode = message.mode ?? 'mesh';
+      roomModeRef.current = mode;
+      setRoomMode(mode);
+      if (mode !== 'sfu' || !webrtcManager.getLocalStream()) return;
 
-    const handleAnswer = async (message: any) => {
+      // Rejoined after a signaling drop: the SFU has let go of our old connection
+      webrtcManager.closePeerConnection(SFU_PEER_ID);
+      void connectViewer(SFU_PEER_ID);
+    };
+
+    const handleJoin = async (message: SignalingMessage<'viewer-joined'>) => {
+      console.log('Viewer joined:', message.userId);
+
+      // The SFU connects viewers itself; in tree rooms we wait for our relay assignment
+      if (roomModeRef.current !== 'mesh') {
+        setRoomViewers((prev) => new Set(prev).add(message.userId));
+        return;
+      }
+
+      // Park the viewer until there is something to send (a URL watch party needs no stream)
+      if (!webrtcManager.getLocalStream()) {
+        setWaitingViewers((prev) => new Set(prev).add(message.userId));
+        if (!watchSourceRef.current) toast.info('A viewer is waiting for you to start sharing');
+        return;
+      }
+
+      removeWaiting(message.userId);
+      await connectViewer(message.userId);
+    };
+
+    const handleAnswer = async (message: SignalingMessage<'answer'>) => {
       if (message.targetId === peerId) {
         try {
           await webrtcManager.setRemoteDescription(
@@ -95,7 +240,7 @@ export default function Host() {
       }
     };
 
-    const handleIceCandidate = async (message: any) => {
+    const handleIceCandidate = async (message: SignalingMessage<'ice-candidate'>) => {
       if (message.targetId === peerId) {
         try {
           await webrtcManager.addIceCandidate(
@@ -108,32 +253,160 @@ export default function Host() {
       }
     };
 
-    const handleLeave = (message: any) => {
+    const handleIceConfig = (message: SignalingMessage<'ice-config'>) => {
+      webrtcManager.setIceConfig(message);
+    };
+
+    const handleLeave = (message: SignalingMessage<'viewer-left'>) => {
       webrtcManager.closePeerConnection(message.userId);
-      setConnectedPeers((prev) => {
+      chat.removeChannel(message.userId);
+      removePeer(message.userId);
+      removeWaiting(message.userId);
+      setRoomViewers((prev) => {
         const newSet = new Set(prev);
         newSet.delete(message.userId);
         return newSet;
       });
-      setViewerCount((prev) => Math.max(0, prev - 1));
+      setViewerLatency((prev) => {
+        if (!prev.has(message.userId)) return prev;
+        const next = new Map(prev);
+        next.delete(message.userId);
+        return next;
+      });
+    };
+
+    // Tree rooms: connect to the viewers placed directly below us, drop the ones moved elsewhere
+    const handleRelayAssignment = (message: SignalingMessage<'relay-assignment'>) => {
+      const children = new Set(message.children);
+      treeChildren.forEach((viewerId) => {
+        if (children.has(viewerId)) return;
+        treeChildren.delete(viewerId);
+        webrtcManager.closePeerConnection(viewerId);
+        chat.removeChannel(viewerId);
+        removePeer(viewerId);
+        removeWaiting(viewerId);
+      });
+      children.forEach((viewerId) => {
+        if (treeChildren.has(viewerId)) return;
+        treeChildren.add(viewerId);
+        if (!webrtcManager.getLocalStream()) {
+          setWaitingViewers((prev) => new Set(prev).add(viewerId));
+          return;
+        }
+        void connectViewer(viewerId);
+      });
+    };
+
+    // A viewer connected to us directly wants less than full quality (small player, congestion)
+    const handleLayerRequest = (message: SignalingMessage<'layer-request'>) => {
+      qualityController.setCeiling(message.fromId, message.layer);
     };
 
+    const handleTreeTopology = (message: SignalingMessage<'tree-topology'>) => {
+      setTreeNodes(message.nodes);
+    };
+
+    const handleKnock = (message: SignalingMessage<'knock'>) => {
+      const { userId, name } = message;
+      setKnocks((prev) => (prev.some((k) => k.userId === userId) ? prev : [...prev, { userId, name }]));
+      toast.info('A viewer is asking to join');
+    };
+
+    const handleKnockWithdrawn = (message: SignalingMessage<'knock-withdrawn'>) => {
+      setKnocks((prev) => prev.filter((k) => k.userId !== message.userId));
+    };
+
+    const handleLatencyReport = (message: SignalingMessage<'latency-report'>) => {
+      setViewerLatency((prev) => new Map(prev).set(message.fromId, message.latencyMs));
+    };
+
+    // Someone else is already hosting this room code
+    const handleError = (message: SignalingMessage<'error'>) => {
+      if (message.code !== 'room-exists') return;
+      toast.error('That room is already being hosted. Start a new one instead.');
+      navigate('/');
+    };
+
+    signalingService.on('room-joined', handleRoomJoined);
     signalingService.on('viewer-joined', handleJoin);
     signalingService.on('answer', handleAnswer);
     signalingService.on('ice-candidate', handleIceCandidate);
     signalingService.on('viewer-left', handleLeave);
+    signalingService.on('ice-config', handleIceConfig);
+    signalingService.on('relay-assignment', handleRelayAssignment);
+    signalingService.on('tree-topology', handleTreeTopology);
+    signalingService.on('layer-request', handleLayerRequest);
+    signalingService.on('latency-report', handleLatencyReport);
+    signalingService.on('knock', handleKnock);
+    signalingService.on('knock-withdrawn', handleKnockWithdrawn);
+    signalingService.on('error', handleError);
 
     return () => {
+      clockSync.setIsHost(false);
+      connectViewerRef.current = null;
       webrtcManager.closeAllConnections();
+      chat.leave();
       signalingService.leaveRoom(roomId);
+      signalingService.off('room-joined', handleRoomJoined);
       signalingService.off('viewer-joined', handleJoin);
       signalingService.off('answer', handleAnswer);
       signalingService.off('ice-candidate', handleIceCandidate);
       signalingService.off('viewer-left', handleLeave);
+      signalingService.off('ice-config', handleIceConfig);
+      signalingService.off('relay-assignment', handleRelayAssignment);
+      signalingService.off('tree-topology', handleTreeTopology);
+      signalingService.off('layer-request', handleLayerRequest);
+      signalingService.off('latency-report', handleLatencyReport);
+      signalingService.off('knock', handleKnock);
+      signalingService.off('knock-withdrawn', handleKnockWithdrawn);
+      signalingService.off('error', handleError);
     };
-  }, [roomId, navigate, peerId, webrtcManager, isSharing]);
+  }, [roomId, navigate, peerId, webrtcManager, qualityController, chat]);
+
+  // Fixed modes apply directly; auto watches the shared track and retunes as content changes
+  useEffect(() => {
+    if (sharingMode !== 'auto') {
+      void webrtcManager.setContentType(sharingMode);
+      return;
+    }
+
+    const track = localStream?.getVideoTracks()[0];
+    if (!track) return;
+
+    const detector = new ContentDetector(track, (type) => {
+      setDetectedContent(type);
+      void webrtcManager.setContentType(type);
+    });
+    detector.start();
+    return () => detector.stop();
+  }, [sharingMode, localStream, webrtcManager]);
+
+  useEffect(() => {
+    waitingViewersRef.current = waitingViewers;
+  }, [waitingViewers]);
+
+  useEffect(() => {
+    mutedViewersRef.current = mutedViewers;
+  }, [mutedViewers]);
+
+  useEffect(() => {
+    chat.setNames(names);
+  }, [chat, names]);
+
+  // Connect the SFU and any viewers who joined while there was nothing to send
+  const connectAudience = () => {
+    if (roomModeRef.current === 'sfu' && !webrtcManager.hasPeer(SFU_PEER_ID)) {
+      void connectViewerRef.current?.(SFU_PEER_ID);
+    }
+    const waiting = Array.from(waitingViewersRef.current);
+    setWaitingViewers((prev) => new Set([...prev].filter((viewerId) => !waiting.includes(viewerId))));
+    waiting.forEach((viewerId) => {
+      void connectViewerRef.current?.(viewerId);
+    });
+  };
 
   const handleStartSharing = async () => {
+    if (watchSourceRef.current) handleEndWatchParty();
     try {
       let stream;
       try {
@@ -153,6 +426,10 @@ export default function Host() {
       setIsSharing(true);
       toast.success('Screen sharing started');
 
+      // Viewers still connected from an earlier share get the new tracks
+      await webrtcManager.publishLocalStream();
+      connectAudience();
+
       // Handle when user stops sharing via browser UI
       stream.getVideoTracks()[0].onended = () => {
         handleStopSharing();
@@ -163,6 +440,22 @@ export default function Host() {
     }
   };
 
+  // Swap to another screen, window or tab without reconnecting viewers
+  const handleChangeSource = async () => {
+    try {
+      const stream = await webrtcManager.changeSource();
+      setLocalStream(stream);
+      toast.success('Source changed');
+
+      stream.getVideoTracks()[0].onended = () => {
+        handleStopSharing();
+      };
+    } catch (error) {
+      console.error('Error changing source:', error);
+      toast.error('Failed to change source');
+    }
+  };
+
   const handleStopSharing = () => {
     webrtcManager.stopScreenShare();
     setLocalStream(null);
@@ -170,27 +463,105 @@ export default function Host() {
     toast.info('Screen sharing stopped');
   };
 
+  const broadcastPlayback = useCallback(() => {
+    const video = partyVideoRef.current;
+    if (!video || !roomId) return;
+    signalingService.sendPlayback(roomId, readPlayback(video, watchSourceRef.current, ++playbackSeqRef.current));
+  }, [roomId]);
+
+  const startWatchParty = (source: PlaybackSource, src: string) => {
+    if (isSharing) handleStopSharing();
+    // A capture of the previous file must not keep going out
+    if (watchSourceRef.current?.kind === 'file') webrtcManager.stopScreenShare();
+    if (watchSrc?.startsWith('blob:')) URL.revokeObjectURL(watchSrc);
+    watchSourceRef.current = source;
+    setWatchSource(source);
+    setWatchSrc(src);
+  };
+
+  const handlePlayUrl = (url: string) => {
+    startWatchParty({ kind: 'url', url }, url);
+  };
+
+  const handlePlayFile = (file: File) => {
+    startWatchParty({ kind: 'file', name: file.name, size: file.size }, URL.createObjectURL(file));
+  };
+
+  // Viewers without their own copy of the file watch it over the peer connections
+  const handleWatchPartyPlaying = async () => {
+    broadcastPlayback();
+    const video = partyVideoRef.current;
+    if (!video || watchSourceRef.current?.kind !== 'file' || webrtcManager.getLocalStream()) return;
+
+    const stream = video.captureStream?.() ?? video.mozCaptureStream?.();
+    if (!stream) {
+      toast.error('This browser cannot stream the file; viewers need their own copy');
+      return;
+    }
+    await webrtcManager.publishStream(stream);
+    connectAudience();
+  };
+
+  const handleEndWatchParty = () => {
+    if (roomId) {
+      signalingService.sendPlayback(roomId, {
+        source: null,
+        playing: false,
+        position: 0,
+        rate: 1,
+        seq: ++playbackSeqRef.current,
+      });
+    }
+    if (watchSourceRef.current?.kind === 'file') webrtcManager.stopScreenShare();
+    if (watchSrc?.startsWith('blob:')) URL.revokeObjectURL(watchSrc);
+    watchSourceRef.current = null;
+    setWatchSource(null);
+    setWatchSrc(null);
+  };
+
+  // Keep viewers' reference fresh while playing; events cover everything else
+  useEffect(() => {
+    if (!watchSource) return;
+    const timer = setInterval(() => {
+      if (partyVideoRef.current && !partyVideoRef.current.paused) broadcastPlayback();
+    }, PLAYBACK_HEARTBEAT_MS);
+    return () => clearInterval(timer);
+  }, [watchSource, broadcastPlayback]);
+
+  const handleRoomAccessChange = (passcode: string, admission: Admission) => {
+    if (!roomId) return;
+    signalingService.setRoomAccess(roomId, passcode, admission);
+    setRoomAccess({ passcode, admission });
+    // Opening the room lets everyone who was waiting in
+    if (admission === 'open') setKnocks([]);
+  };
+
+  const handleAdmit = (userId: string, admit: boolean) => {
+    if (!roomId) return;
+    signalingService.admitViewer(roomId, userId, admit);
+    setKnocks((prev) => prev.filter((k) => k.userId !== userId));
+  };
+
+  const handleModerate = (userId: string, action: ModerationAction) => {
+    if (!roomId) return;
+    signalingService.moderate(roomId, userId, action);
+    // Mutes show once the server's participant-updated comes back
+    if (action === 'mute' || action === 'unmute') return;
+    // Drop our side straight away; the server's viewer-left clears the rest
+    webrtcManager.closePeerConnection(userId);
+    toast.success(action === 'ban' ? 'Viewer banned from this room' : 'Viewer removed');
+  };
+
   const handleCopyLink = () => {
-    const link = `${window.location.origin}/viewer/${roomId}`;
+    // Viewers must use the same signaling transport as the host
+    const transport = signalingService.getTransportKind();
+    const query = transport === 'websocket' ? '' : `?signaling=${transport}`;
+    const link = `${window.location.origin}/viewer/${roomId}${query}`;
     navigator.clipboard.writeText(link);
     toast.success('Room link copied to clipboard');
   };
 
-  const handleSendMessage = useCallback((text: string) => {
-    const message: ChatMessage = {
-      id: `msg_${Date.now()}`,
-      sender: 'Host',
-      text,
-      timestamp: Date.now(),
-    };
-
-    setMessages((prev) => [...prev, message]);
-
-    // Broadcast to all connected viewers
-    connectedPeers.forEach((peerId) => {
-      webrtcManager.sendMessage(peerId, JSON.stringify(message));
-    });
-  }, [connectedPeers, webrtcManager]);
+  const handleSendMessage = useCallback((text: string, replyTo?: ChatRef) => chat.send(text, replyTo), [chat]);
 
   return (
     <div className="min-h-screen bg-gradient-to-br from-gray-50 to-gray-100 p-6">
@@ -203,13 +574,16 @@ export default function Host() {
           <Badge variant="secondary" className="text-lg px-4 py-2">
             <Users className="h-4 w-4 mr-2" />
             {viewerCount} Viewer{viewerCount !== 1 ? 's' : ''}
+            {waitingViewers.size > 0 && ` (${waitingViewers.size} waiting)`}
           </Badge>
         </div>
 
         <Card>
           <CardHeader>
             <CardTitle>Host Controls</CardTitle>
-            <CardDescription>Room ID: {roomId}</CardDescription>
+            <CardDescription>
+              Room ID: {roomId} · {ROOM_MODE_LABELS[roomMode]}
+            </CardDescription>
           </CardHeader>
           <CardContent className="space-y-4">
             <div className="flex gap-3">
@@ -219,32 +593,108 @@ export default function Host() {
                   Start Screen Share
                 </Button>
               ) : (
-                <Button onClick={handleStopSharing} variant="destructive" size="lg">
-                  <MonitorOff className="h-4 w-4 mr-2" />
-                  Stop Sharing
-                </Button>
+                <>
+                  <Button onClick={handleStopSharing} variant="destructive" size="lg">
+                    <MonitorOff className="h-4 w-4 mr-2" />
+                    Stop Sharing
+                  </Button>
+                  <Button onClick={handleChangeSource} variant="outline" size="lg">
+                    <RefreshCw className="h-4 w-4 mr-2" />
+                    Change Source
+                  </Button>
+                </>
               )}
               <Button onClick={handleCopyLink} variant="outline" size="lg">
                 <Copy className="h-4 w-4 mr-2" />
                 Copy Room Link
               </Button>
             </div>
+            <div className="flex items-center gap-3">
+              <Label htmlFor="sharing-mode">Sharing mode</Label>
+              <Select value={sharingMode} onValueChange={(value) => setSharingMode(value as SharingMode)}>
+                <SelectTrigger id="sharing-mode" className="w-56">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="auto">
+                    Auto{detectedContent && ` (detected: ${detectedContent === 'motion' ? 'Motion' : 'Detail'})`}
+                  </SelectItem>
+                  <SelectItem value="motion">Motion (video, games)</SelectItem>
+                  <SelectItem value="detail">Detail (slides, code)</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <WatchPartySource
+              active={watchSource !== null}
+              onPlayUrl={handlePlayUrl}
+              onPlayFile={handlePlayFile}
+              onEnd={handleEndWatchParty}
+            />
           </CardContent>
         </Card>
 
+        <RoomAccessPanel
+          passcode={roomAccess.passcode}
+          admission={roomAccess.admission}
+          onChange={handleRoomAccessChange}
+          knocks={knocks}
+          onAdmit={handleAdmit}
+        />
+
+        <ParticipantList viewers={participants} names={names} muted={mutedViewers} onModerate={handleModerate} />
+
         <div className="grid lg:grid-cols-3 gap-6">
           <div className="lg:col-span-2">
-            <VideoPlayer stream={localStream} />
+            {watchSrc ? (
+              <Card className="overflow-hidden bg-black">
+                <video
+                  ref={partyVideoRef}
+                  src={watchSrc}
+                  controls
+                  playsInline
+                  className="w-full h-full object-contain"
+                  style={{ minHeight: '400px' }}
+                  onLoadedMetadata={broadcastPlayback}
+                  onPlaying={() => void handleWatchPartyPlaying()}
+                  onPause={broadcastPlayback}
+                  onSeeked={broadcastPlayback}
+                  onRateChange={broadcastPlayback}
+                />
+              </Card>
+            ) : (
+              <VideoPlayer stream={localStream} />
+            )}
           </div>
           <div className="h-[500px]">
             <Chat
               messages={messages}
               onSendMessage={handleSendMessage}
-              userName="Host"
+              onReact={(message, emoji, on) => chat.react(message, emoji, on)}
+              onEdit={(message, text) => chat.edit(message, text)}
+              onDelete={(message) => chat.delete(message)}
+              selfId={peerId}
+              isHost
+              hasOlder={chatHistory.hasOlder}
+              loadingOlder={chatHistory.loadingOlder}
+              onLoadOlder={() => chat.loadOlder()}
             />
           </div>
         </div>
+
+        <StatsPanel
+          history={statsHistory}
+          variant="host"
+          quality={viewerQuality}
+          latency={viewerLatency}
+          connections={webrtcManager.getMetrics()}
+          // Simulcast to the SFU has fixed layers; viewers choose among them
+          onQualityChange={
+            roomMode === 'sfu' ? undefined : (viewerId, setting) => qualityController.setQuality(viewerId, setting)
+          }
+        />
+
+        {roomMode === 'tree' && <RelayTreeView nodes={treeNodes} hostId={peerId} />}
       </div>
     </div>
   );
-}
\ No newline at end of file
+}
@@ -4,7 +4,7 @@ import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Monitor, Users } from 'lucide-react';
-import { generateRoomId } from '@/lib/signaling';
+import { generateRoomId, normalizeRoomId } from '@/lib/signaling';
 
 export default function Home() {
   const [roomId, setRoomId] = useState('');
@@ -16,8 +16,9 @@ export default function Home() {
   };
 
   const handleJoinRoom = () => {
-    if (roomId.trim()) {
-      navigate(`/viewer/${roomId.trim()}`);
+    const code = normalizeRoomId(roomId);
+    if (code) {
+      navigate(`/viewer/${encodeURIComponent(code)}`);
     }
   };
 
@@ -79,7 +80,7 @@ export default function Home() {
                 onClick={handleJoinRoom}
                 className="w-full"
                 size="lg"
-                disabled={!roomId.trim()}
+                disabled={!normalizeRoomId(roomId)}
               >
                 Join Room
               </Button>
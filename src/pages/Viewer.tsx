@@ -1,15 +1,53 @@
-/* eslint-disable @typescript-eslint/no-explicit-any */
 import { useState, useEffect, useCallback, useRef } from 'react';
 import { useParams, useNavigate } from 'react-router-dom';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { toast } from 'sonner';
-import { ArrowLeft, Wifi, WifiOff } from 'lucide-react';
-import Chat, { ChatMessage } from '@/components/Chat';
+import { ArrowLeft, FileVideo, Lock, Users, Wifi, WifiOff } from 'lucide-react';
+import Chat from '@/components/Chat';
 import VideoPlayer from '@/components/VideoPlayer';
+import SyncedVideo from '@/components/SyncedVideo';
+import StatsPanel from '@/components/StatsPanel';
 import { WebRTCManager } from '@/lib/webrtc';
-import { signalingService, generatePeerId } from '@/lib/signaling';
+import { StatsCollector, estimateUplinkKbps } from '@/lib/stats';
+import { QUALITY_PRESETS } from '@/lib/adaptive';
+import { LayerSelector, type RenderSize } from '@/lib/simulcast';
+import { isSameFile } from '@/lib/playback';
+import { clockSync } from '@/lib/clock';
+import { ChatService } from '@/lib/chat';
+import { cleanDisplayName, loadDisplayName, saveDisplayName } from '@/lib/display-name';
+import {
+  LATENCY_REPORT_INTERVAL_MS,
+  LatencyMeter,
+  PLAYOUT_DELAY_MS,
+  formatLatency,
+  loadLatencyMode,
+  saveLatencyMode,
+  type LatencyMode,
+} from '@/lib/latency';
+import { useConnectionStats } from '@/hooks/use-connection-stats';
+import { useRoster } from '@/hooks/use-roster';
+import { useChatHistory, useChatMessages } from '@/hooks/use-chat';
+import {
+  signalingService,
+  generatePeerId,
+  MAX_DISPLAY_NAME_LENGTH,
+  type ChatRef,
+  type PlaybackState,
+  type RoomMode,
+  type SignalingMessage,
+  type SimulcastLayer,
+} from '@/lib/signaling';
+
+// How long the viewer shows "Reconnecting..." before declaring the host lost
+const RECONNECT_GIVE_UP_MS = 60000;
+// Tree rooms: re-report our uplink at most this often, and only when it moved noticeably
+const RELAY_REPORT_INTERVAL_MS = 10000;
+const RELAY_REPORT_CHANGE = 0.2;
 
 export default function Viewer() {
   const { roomId } = useParams<{ roomId: string }>();
@@ -17,12 +55,58 @@ export default function Viewer() {
   const [remoteStream, setRemoteStream] = useState<MediaStream | null>(null);
   const [isConnected, setIsConnected] = useState(false);
   const [isConnecting, setIsConnecting] = useState(true);
-  const [messages, setMessages] = useState<ChatMessage[]>([]);
+  const [isReconnecting, setIsReconnecting] = useState(false);
+  const [roomMode, setRoomMode] = useState<RoomMode>('mesh');
+  const roomModeRef = useRef<RoomMode>('mesh');
+  // Tree rooms: viewers we forward the stream to
+  const [relayChildren, setRelayChildren] = useState(0);
+  const lastRelayReportRef = useRef<{ at: number; kbps: number } | null>(null);
+  // Whoever sends us the stream (host, SFU or relay parent); layer requests go there
+  const upstreamRef = useRef<string | null>(null);
+  const [layerSelector] = useState(
+    () =>
+      new LayerSelector((layer) => {
+        if (roomId && upstreamRef.current) {
+          signalingService.sendLayerRequest(roomId, upstreamRef.current, layer);
+        }
+      })
+  );
+  // We join once a display name is chosen; it starts from the one used last time
+  const [displayName, setDisplayName] = useState(loadDisplayName);
+  const [nameChosen, setNameChosen] = useState(false);
+  const roster = useRoster();
+  // Getting in: the passcode prompt (with why it is shown), waiting for approval, turned away or removed
+  const [passcodePrompt, setPasscodePrompt] = useState<string | null>(null);
+  const [passcode, setPasscode] = useState('');
+  const [awaitingAdmission, setAwaitingAdmission] = useState(false);
+  const [turnedAway, setTurnedAway] = useState<{ title: string; message: string } | null>(null);
+  // The host muted our chat; the server drops what we send
+  const [chatMuted, setChatMuted] = useState(false);
+  // Glass-to-glass latency of what we watch, when the browser reports what it needs
+  const [latencyMeter] = useState(() => new LatencyMeter());
+  const [latencyMs, setLatencyMs] = useState<number | null>(null);
+  const lastLatencyReportRef = useRef(0);
+  const [latencyMode, setLatencyMode] = useState<LatencyMode>(loadLatencyMode);
+  // Watch party: the host's latest playback state, and our own copy when it plays a file
+  const [playback, setPlayback] = useState<PlaybackState | null>(null);
+  const [ownFile, setOwnFile] = useState<{ file: File; url: string } | null>(null);
+  const ownFileInputRef = useRef<HTMLInputElement>(null);
   const [webrtcManager] = useState(() => new WebRTCManager());
+  const [statsCollector] = useState(() => new StatsCollector(webrtcManager));
+  const statsHistory = useConnectionStats(statsCollector);
   const [peerId] = useState(() => generatePeerId('viewer'));
-  const [dataChannel, setDataChannel] = useState<RTCDataChannel | null>(null);
+  const [chat] = useState(() => new ChatService(peerId));
+  const messages = useChatMessages(chat);
+  const chatHistory = useChatHistory(chat);
+  // Chat goes straight to the host when it sends us the stream itself
+  const hostIdRef = useRef<string | null>(null);
+  useEffect(() => {
+    hostIdRef.current = roster.find((p) => p.role === 'host')?.userId ?? null;
+    chat.setNames(new Map(roster.map((p) => [p.userId, p.name])));
+  }, [roster, chat]);
   const [isSignalingReady, setIsSignalingReady] = useState(false);
   const initRef = useRef(false);
+  const reconnectTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
 
   // Initialize signaling service
   useEffect(() => {
@@ -47,45 +131,177 @@ export default function Viewer() {
   }, []);
 
   useEffect(() => {
-    if (!roomId || !isSignalingReady) {
+    if (!roomId || !isSignalingReady || !nameChosen) {
       if (!roomId) navigate('/');
       return;
     }
 
     console.log('Joining room:', roomId, 'with peerId:', peerId);
     signalingService.joinRoom(roomId, peerId);
+    chat.join(roomId);
 
-    const handleRoomJoined = (message: any) => {
+    const handleRoomJoined = (message: SignalingMessage<'room-joined'>) => {
       console.log('Room joined successfully:', message);
       toast.success('Joined room successfully');
+      setPasscodePrompt(null);
+      setAwaitingAdmission(false);
+      roomModeRef.current = message.mode ?? 'mesh';
+      setRoomMode(message.mode ?? 'mesh');
+      // Nothing to load until the host sends an offer
+      setIsConnecting(false);
     };
 
-    const handleOffer = async (message: any) => {
-      console.log('Received offer from host:', message.fromId);
+    const handleIceConfig = (message: SignalingMessage<'ice-config'>) => {
+      webrtcManager.setIceConfig(message);
+    };
+
+    let stopHostClockSync: (() => void) | null = null;
+
+    // Tree rooms: who we receive from and who we forward to, and the layer each child asked for
+    let parentId: string | null = null;
+    const children = new Set<string>();
+    const childLayers = new Map<string, SimulcastLayer>();
+
+    const applyChildLayer = (childId: string) => {
+      const layer = childLayers.get(childId);
+      if (layer) void webrtcManager.setVideoEncoding(childId, QUALITY_PRESETS[layer]);
+    };
 
+    // Same as the host connecting a viewer, with what we receive standing in for a capture
+    const connectChild = async (childId: string) => {
       try {
+        webrtcManager.createHostConnection(
+          childId,
+          (candidate) => signalingService.sendIceCandidate(roomId, childId, candidate),
+          (state) => {
+            console.log(`Relay connection state for ${childId}:`, state);
+            // Encodings only exist once negotiated, and a rebuilt connection starts from defaults
+            if (state === 'connected') applyChildLayer(childId);
+          },
+          {
+            sendOffer: (offer, session) => signalingService.sendOffer(roomId, childId, offer, session),
+            rebuild: () => {
+              webrtcManager.closePeerConnection(childId);
+              void connectChild(childId);
+            },
+            giveUp: () => console.warn('Gave up relaying to viewer:', childId),
+          }
+        );
+        // Our children measure the host clock through us
+        const channel = webrtcManager.getDataChannel(childId);
+        if (channel) channel.onmessage = (event) => clockSync.handleChannelMessage(channel, event.data);
+
+        const offer = await webrtcManager.createOffer(childId);
+        signalingService.sendOffer(roomId, childId, offer, webrtcManager.getSession(childId));
+      } catch (error) {
+        console.error('Error connecting relay child:', error);
+      }
+    };
+
+    // Hand the stream on to our children; the ones assigned before it arrived get connected now
+    const forwardToChildren = async (stream: MediaStream) => {
+      if (roomModeRef.current !== 'tree') return;
+      await webrtcManager.publishStream(stream);
+      children.forEach((childId) => {
+        if (!webrtcManager.hasPeer(childId)) void connectChild(childId);
+      });
+    };
+
+    const handleRelayAssignment = (message: SignalingMessage<'relay-assignment'>) => {
+      console.log('Relay assignment:', message);
+      // The new parent sends its own offer; the old link would only keep a stale copy going
+      if (parentId && parentId !== message.parentId) {
+        webrtcManager.closePeerConnection(parentId);
+      }
+      parentId = message.parentId;
+
+      const assigned = new Set(message.children);
+      children.forEach((childId) => {
+        if (assigned.has(childId)) return;
+        children.delete(childId);
+        childLayers.delete(childId);
+        webrtcManager.closePeerConnection(childId);
+      });
+      assigned.forEach((childId) => {
+        if (children.has(childId)) return;
+        children.add(childId);
+        if (webrtcManager.getLocalStream()) void connectChild(childId);
+      });
+      setRelayChildren(children.size);
+    };
+
+    // We re-encode for each child, so a layer request caps that child's encoding
+    const handleLayerRequest = (message: SignalingMessage<'layer-request'>) => {
+      if (!children.has(message.fromId)) return;
+      childLayers.set(message.fromId, message.layer);
+      applyChildLayer(message.fromId);
+    };
+
+    const handleAnswer = async (message: SignalingMessage<'answer'>) => {
+      try {
+        await webrtcManager.setRemoteDescription(message.fromId, message.data);
+      } catch (error) {
+        console.error('Error setting remote description:', error);
+      }
+    };
+
+    const clearReconnectTimer = () => {
+      if (reconnectTimerRef.current) {
+        clearTimeout(reconnectTimerRef.current);
+        reconnectTimerRef.current = null;
+      }
+    };
+
+    const handleOffer = async (message: SignalingMessage<'offer'>) => {
+      console.log('Received offer from host:', message.fromId, 'session:', message.session);
+
+      try {
+        // Same session: ICE restart/renegotiation on the existing connection
+        const session = message.session ?? 0;
+        if (webrtcManager.hasPeer(message.fromId) && webrtcManager.getSession(message.fromId) === session) {
+          await webrtcManager.setRemoteDescription(message.fromId, message.data);
+          const answer = await webrtcManager.createAnswer(message.fromId);
+          await signalingService.sendAnswer(roomId, message.fromId, answer);
+          return;
+        }
+
+        // New session: the host rebuilt the connection, drop ours
+        webrtcManager.closePeerConnection(message.fromId);
+        setIsConnecting(true);
+
         const peerConnection = webrtcManager.createViewerConnection(
           message.fromId,
           (stream) => {
             console.log('Received remote stream');
             setRemoteStream(stream);
+            void forwardToChildren(stream);
+            if (upstreamRef.current !== message.fromId) {
+              // A new sender starts at full quality; tell it what we want
+              upstreamRef.current = message.fromId;
+              latencyMeter.reset();
+              signalingService.sendLayerRequest(roomId, message.fromId, layerSelector.getLayer());
+            }
             setIsConnected(true);
             setIsConnecting(false);
             toast.success('Connected to host');
           },
           (channel) => {
             console.log('Data channel received');
-            setDataChannel(channel);
+            if (message.fromId === hostIdRef.current) chat.addChannel(message.fromId, channel);
+            // Measure the host clock for as long as this channel is up
+            stopHostClockSync?.();
+            const startClockSync = () => {
+              stopHostClockSync = clockSync.syncOverChannel(channel);
+            };
+            if (channel.readyState === 'open') startClockSync();
             channel.onopen = () => {
               console.log('Data channel opened');
+              startClockSync();
             };
+            channel.onclose = () => stopHostClockSync?.();
             channel.onmessage = (event) => {
-              try {
-                const chatMessage: ChatMessage = JSON.parse(event.data);
-                setMessages((prev) => [...prev, chatMessage]);
-              } catch (e) {
-                console.error('Failed to parse chat message:', e);
-              }
+              if (clockSync.handleChannelMessage(channel, event.data)) return;
+              chat.handleChannelMessage(message.fromId, event.data);
             };
           },
           (candidate) => {
@@ -95,14 +311,25 @@ export default function Viewer() {
           (state) => {
             console.log('Connection state:', state);
             if (state === 'connected') {
+              clearReconnectTimer();
               setIsConnected(true);
               setIsConnecting(false);
+              setIsReconnecting(false);
             } else if (state === 'disconnected' || state === 'failed') {
+              // The host drives recovery (ICE restart, then rebuild); wait for it before giving up
               setIsConnected(false);
               setIsConnecting(false);
-              toast.error('Disconnected from host');
+              setIsReconnecting(true);
+              if (!reconnectTimerRef.current) {
+                reconnectTimerRef.current = setTimeout(() => {
+                  reconnectTimerRef.current = null;
+                  setIsReconnecting(false);
+                  toast.error('Disconnected from host');
+                }, RECONNECT_GIVE_UP_MS);
+              }
             }
-          }
+          },
+          session
         );
 
         // Set remote description and create answer
@@ -121,7 +348,7 @@ export default function Viewer() {
       }
     };
 
-    const handleIceCandidate = async (message: any) => {
+    const handleIceCandidate = async (message: SignalingMessage<'ice-candidate'>) => {
       console.log('Received ICE candidate from:', message.fromId);
       if (message.data) {
         try {
@@ -134,71 +361,254 @@ export default function Viewer() {
 
     const handleHostLeft = () => {
       console.log('Host left the room');
+      clearReconnectTimer();
+      stopHostClockSync?.();
+      // Drop the link we received on before its state change reads as a connection to recover
+      const upstreamId = upstreamRef.current ?? parentId ?? hostIdRef.current;
+      if (upstreamId) {
+        webrtcManager.closePeerConnection(upstreamId);
+        chat.removeChannel(upstreamId);
+      }
+      upstreamRef.current = null;
+      parentId = null;
+      setIsReconnecting(false);
       setIsConnected(false);
       setRemoteStream(null);
+      setLatencyMs(null);
       toast.error('Host has left the room');
     };
 
-    const handleChatMessage = (message: any) => {
-      console.log('Received chat message:', message);
-      const chatMessage: ChatMessage = {
-        id: `msg_${message.timestamp}`,
-        sender: message.username || 'Host',
-        text: message.text,
-        timestamp: message.timestamp,
-      };
-      setMessages((prev) => [...prev, chatMessage]);
+    const handlePlayback = (message: SignalingMessage<'playback'>) => {
+      setPlayback(message.state.source ? message.state : null);
+    };
+
+    const handleAdmissionPending = () => {
+      setPasscodePrompt(null);
+      setAwaitingAdmission(true);
+      setIsConnecting(false);
     };
 
-    const handleError = (message: any) => {
+    // Out of the room for good: stop everything and do not rejoin on the next reconnect
+    const shutOut = (title: string, message: string) => {
+      clearReconnectTimer();
+      stopHostClockSync?.();
+      webrtcManager.closeAllConnections();
+      chat.leave();
+      signalingService.leaveRoom(roomId);
+      setAwaitingAdmission(false);
+      setIsConnected(false);
+      setIsConnecting(false);
+      setIsReconnecting(false);
+      setRemoteStream(null);
+      setTurnedAway({ title, message });
+    };
+
+    const handleRemoved = (message: SignalingMessage<'removed'>) => {
+      shutOut(
+        'You were removed',
+        message.banned ? 'The host removed you and banned you from this room' : 'The host removed you from this room'
+      );
+    };
+
+    const handleChatMuted = (message: SignalingMessage<'chat-muted'>) => {
+      setChatMuted(message.muted);
+      if (message.muted) {
+        toast.info('The host muted your chat');
+      } else {
+        toast.info('The host unmuted your chat');
+      }
+    };
+
+    const handleError = (message: SignalingMessage<'error'>) => {
       console.error('Signaling error:', message);
+      if (message.code === 'passcode-required' || message.code === 'passcode-incorrect') {
+        setPasscodePrompt(message.code === 'passcode-incorrect' ? 'That passcode is not right' : 'This room needs a passcode');
+        setIsConnecting(false);
+        return;
+      }
+      if (message.code === 'admission-denied') {
+        shutOut('Not admitted', message.message);
+        return;
+      }
+      if (message.code === 'banned') {
+        shutOut('You were removed', message.message);
+        return;
+      }
       toast.error(message.message || 'An error occurred');
     };
 
     signalingService.on('room-joined', handleRoomJoined);
+    signalingService.on('admission-pending', handleAdmissionPending);
+    signalingService.on('ice-config', handleIceConfig);
     signalingService.on('offer', handleOffer);
     signalingService.on('ice-candidate', handleIceCandidate);
     signalingService.on('host-left', handleHostLeft);
-    signalingService.on('chat-message', handleChatMessage);
     signalingService.on('error', handleError);
+    signalingService.on('relay-assignment', handleRelayAssignment);
+    signalingService.on('answer', handleAnswer);
+    signalingService.on('layer-request', handleLayerRequest);
+    signalingService.on('playback', handlePlayback);
+    signalingService.on('removed', handleRemoved);
+    signalingService.on('chat-muted', handleChatMuted);
 
     return () => {
       console.log('Cleaning up viewer component');
+      clearReconnectTimer();
+      stopHostClockSync?.();
       webrtcManager.closeAllConnections();
+      chat.leave();
       signalingService.leaveRoom(roomId);
       signalingService.off('room-joined', handleRoomJoined);
+      signalingService.off('admission-pending', handleAdmissionPending);
+      signalingService.off('ice-config', handleIceConfig);
       signalingService.off('offer', handleOffer);
       signalingService.off('ice-candidate', handleIceCandidate);
       signalingService.off('host-left', handleHostLeft);
-      signalingService.off('chat-message', handleChatMessage);
       signalingService.off('error', handleError);
+      signalingService.off('relay-assignment', handleRelayAssignment);
+      signalingService.off('answer', handleAnswer);
+      signalingService.off('layer-request', handleLayerRequest);
+      signalingService.off('playback', handlePlayback);
+      signalingService.off('removed', handleRemoved);
+      signalingService.off('chat-muted', handleChatMuted);
     };
-  }, [roomId, navigate, peerId, webrtcManager, isSignalingReady]);
-
-  const handleSendMessage = useCallback((text: string) => {
-    const message: ChatMessage = {
-      id: `msg_${Date.now()}`,
-      sender: 'Viewer',
-      text,
-      timestamp: Date.now(),
-    };
+  }, [roomId, navigate, peerId, webrtcManager, isSignalingReady, nameChosen, layerSelector, latencyMeter, chat]);
 
-    setMessages((prev) => [...prev, message]);
+  // Congestion on the incoming stream lowers the requested layer
+  useEffect(() => {
+    const samples = upstreamRef.current ? statsHistory.get(upstreamRef.current) : undefined;
+    const latest = samples?.[samples.length - 1];
+    if (latest) layerSelector.addSample(latest);
+  }, [statsHistory, layerSelector]);
+
+  useEffect(() => {
+    webrtcManager.setPlayoutDelay(PLAYOUT_DELAY_MS[latencyMode]);
+  }, [webrtcManager, latencyMode]);
+
+  const handleLatencyModeChange = (mode: LatencyMode) => {
+    setLatencyMode(mode);
+    saveLatencyMode(mode);
+  };
+
+  // What the jitter buffer actually holds back, next to the setting that steers it
+  const upstreamSamples = upstreamRef.current ? statsHistory.get(upstreamRef.current) : undefined;
+  const jitterBufferMs = upstreamSamples?.[upstreamSamples.length - 1]?.jitterBufferMs ?? null;
+
+  // Measure latency on the incoming stream, show it and pass it on to the host (and, for relays,
+  // to our children through clock sync)
+  useEffect(() => {
+    const samples = upstreamRef.current ? statsHistory.get(upstreamRef.current) : undefined;
+    const latest = samples?.[samples.length - 1];
+    if (!latest || !roomId) return;
+
+    // The SFU stamps what it forwards with its own (server) clock; any other sender answers our
+    // clock pings over the data channel
+    const viaSfu = roomMode === 'sfu';
+    const senderClock = viaSfu ? clockSync.server : clockSync.upstream;
+    if (!senderClock.isSynced()) return;
+
+    const latency = latencyMeter.addSample(latest, senderClock.getOffset(), viaSfu ? 0 : clockSync.getUpstreamDelay());
+    setLatencyMs(latency);
+    if (latency === null) return;
+    clockSync.setMediaDelay(latency);
 
-    // Send via signaling server
-    if (roomId) {
-      signalingService.sendChatMessage(roomId, peerId, 'Viewer', text);
+    const now = Date.now();
+    if (now - lastLatencyReportRef.current >= LATENCY_REPORT_INTERVAL_MS) {
+      lastLatencyReportRef.current = now;
+      signalingService.sendLatencyReport(roomId, Math.round(latency));
     }
+  }, [statsHistory, roomMode, roomId, latencyMeter]);
 
-    // Also try data channel if available
-    if (dataChannel && dataChannel.readyState === 'open') {
-      try {
-        dataChannel.send(JSON.stringify(message));
-      } catch (e) {
-        console.warn('Failed to send via data channel');
-      }
+  const handleRenderSize = useCallback((size: RenderSize) => layerSelector.setRenderSize(size), [layerSelector]);
+
+  // Tree rooms: tell the server how much we could relay so it can place viewers below us
+  useEffect(() => {
+    if (roomMode !== 'tree' || !roomId) return;
+    const kbps = estimateUplinkKbps(statsHistory);
+    if (kbps === null) return;
+
+    const last = lastRelayReportRef.current;
+    const now = Date.now();
+    if (last && (now - last.at < RELAY_REPORT_INTERVAL_MS || Math.abs(kbps - last.kbps) < last.kbps * RELAY_REPORT_CHANGE)) {
+      return;
     }
-  }, [dataChannel, roomId, peerId]);
+    lastRelayReportRef.current = { at: now, kbps };
+    signalingService.sendRelayCapacity(roomId, Math.round(kbps));
+  }, [statsHistory, roomMode, roomId]);
+
+  const handleSendMessage = useCallback((text: string, replyTo?: ChatRef) => chat.send(text, replyTo), [chat]);
+
+  // Release our copy of the file once it is replaced or we leave
+  useEffect(() => {
+    if (!ownFile) return;
+    return () => URL.revokeObjectURL(ownFile.url);
+  }, [ownFile]);
+
+  const handleOpenOwnFile = (file: File) => {
+    if (!isSameFile(playback?.source ?? null, file)) {
+      toast.error("That file doesn't match the one the host is playing");
+      return;
+    }
+    setOwnFile({ file, url: URL.createObjectURL(file) });
+  };
+
+  // Play the media locally when we have it; otherwise watch the host's stream of it
+  const partySource = playback?.source ?? null;
+  const partySrc =
+    partySource?.kind === 'url'
+      ? partySource.url
+      : ownFile && isSameFile(partySource, ownFile.file)
+        ? ownFile.url
+        : null;
+
+  const handleChooseName = () => {
+    const name = cleanDisplayName(displayName);
+    if (!name) return;
+    saveDisplayName(name);
+    setDisplayName(name);
+    signalingService.setDisplayName(name);
+    chat.setName(name);
+    setNameChosen(true);
+  };
+
+  const handleSubmitPasscode = () => {
+    if (!roomId || !passcode.trim()) return;
+    setIsConnecting(true);
+    signalingService.joinRoom(roomId, peerId, passcode.trim());
+  };
+
+  if (!nameChosen) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-gray-50 to-gray-100 flex items-center justify-center">
+        <Card className="w-96">
+          <CardHeader>
+            <CardTitle>Room {roomId}</CardTitle>
+            <CardDescription>Choose the name others see in chat</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="display-name">Your name</Label>
+              <Input
+                id="display-name"
+                autoFocus
+                maxLength={MAX_DISPLAY_NAME_LENGTH}
+                value={displayName}
+                onChange={(e) => setDisplayName(e.target.value)}
+                onKeyDown={(e) => e.key === 'Enter' && handleChooseName()}
+              />
+            </div>
+            <Button className="w-full" onClick={handleChooseName} disabled={!cleanDisplayName(displayName)}>
+              Join Room
+            </Button>
+            <Button variant="ghost" className="w-full" onClick={() => navigate('/')}>
+              <ArrowLeft className="h-4 w-4 mr-2" />
+              Back to Home
+            </Button>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
 
   if (!isSignalingReady) {
     return (
@@ -212,6 +622,65 @@ export default function Viewer() {
     );
   }
 
+  if (turnedAway) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-gray-50 to-gray-100 flex items-center justify-center">
+        <Card className="w-96">
+          <CardHeader>
+            <CardTitle>{turnedAway.title}</CardTitle>
+            <CardDescription>{turnedAway.message}</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <Button className="w-full" onClick={() => navigate('/')}>
+              <ArrowLeft className="h-4 w-4 mr-2" />
+              Back to Home
+            </Button>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  if (passcodePrompt !== null || awaitingAdmission) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-gray-50 to-gray-100 flex items-center justify-center">
+        <Card className="w-96">
+          <CardHeader>
+            <CardTitle className="flex items-center">
+              <Lock className="h-4 w-4 mr-2" />
+              Room {roomId}
+            </CardTitle>
+            <CardDescription>
+              {awaitingAdmission ? 'Waiting for the host to let you in...' : passcodePrompt}
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {!awaitingAdmission && (
+              <div className="space-y-2">
+                <Label htmlFor="room-passcode">Passcode</Label>
+                <Input
+                  id="room-passcode"
+                  type="password"
+                  autoFocus
+                  value={passcode}
+                  onChange={(e) => setPasscode(e.target.value)}
+                  onKeyDown={(e) => e.key === 'Enter' && handleSubmitPasscode()}
+                />
+                <Button className="w-full" onClick={handleSubmitPasscode} disabled={!passcode.trim() || isConnecting}>
+                  Join Room
+                </Button>
+              </div>
+            )}
+            <Button variant="ghost" className="w-full" onClick={() => navigate('/')}>
+              <ArrowLeft className="h-4 w-4 mr-2" />
+              Leave
+            </Button>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
   return (
     <div className="min-h-screen bg-gradient-to-br from-gray-50 to-gray-100 p-6">
       <div className="max-w-7xl mx-auto space-y-6">
@@ -225,11 +694,12 @@ export default function Viewer() {
               <>
                 <Wifi className="h-4 w-4 mr-2" />
                 Connected
+                {latencyMs !== null && ` · ${formatLatency(latencyMs)} behind`}
               </>
             ) : (
               <>
                 <WifiOff className="h-4 w-4 mr-2" />
-                {isConnecting ? 'Connecting...' : 'Disconnected'}
+                {isReconnecting ? 'Reconnecting...' : isConnecting ? 'Connecting...' : 'Disconnected'}
               </>
             )}
           </Badge>
@@ -238,30 +708,104 @@ export default function Viewer() {
         <Card>
           <CardHeader>
             <CardTitle>Viewing Room</CardTitle>
-            <CardDescription>Room ID: {roomId}</CardDescription>
+            <CardDescription>
+              Room ID: {roomId}
+              {roomMode === 'sfu' && ' · streamed via SFU'}
+              {roomMode === 'tree' && ' · relay tree'}
+              {relayChildren > 0 && ` · forwarding to ${relayChildren} viewer${relayChildren !== 1 ? 's' : ''}`}
+            </CardDescription>
           </CardHeader>
-          <CardContent>
-            {!isConnected && !isConnecting && (
+          <CardContent className="space-y-4">
+            <div className="flex flex-wrap items-center gap-3">
+              <Label htmlFor="latency-mode">Latency</Label>
+              <Select value={latencyMode} onValueChange={(value) => handleLatencyModeChange(value as LatencyMode)}>
+                <SelectTrigger id="latency-mode" className="w-48">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="lowest">Lowest latency</SelectItem>
+                  <SelectItem value="smooth">Smooth</SelectItem>
+                </SelectContent>
+              </Select>
+              {jitterBufferMs !== null && (
+                <span className="text-sm text-muted-foreground">
+                  Buffering {formatLatency(jitterBufferMs)}
+                </span>
+              )}
+            </div>
+            {roster.length > 0 && (
+              <div className="flex flex-wrap items-center gap-2">
+                <Users className="h-4 w-4 text-muted-foreground" />
+                {roster.map((p) => (
+                  <Badge key={p.userId} variant={p.userId === peerId ? 'default' : 'secondary'}>
+                    {p.name ?? (p.role === 'host' ? 'Host' : 'Viewer')}
+                    {p.role === 'host' && p.name !== 'Host' && ' (host)'}
+                    {p.userId === peerId && ' (you)'}
+                  </Badge>
+                ))}
+              </div>
+            )}
+            {!isConnected && !isConnecting && !isReconnecting && !partySource && (
               <p className="text-muted-foreground">
                 Waiting for host to start screen sharing...
               </p>
             )}
+            {partySource?.kind === 'file' && !partySrc && (
+              <div className="flex flex-wrap items-center gap-3">
+                <p className="text-sm text-muted-foreground">
+                  The host is playing {partySource.name}. Open your own copy for full quality.
+                </p>
+                <Button variant="outline" onClick={() => ownFileInputRef.current?.click()}>
+                  <FileVideo className="h-4 w-4 mr-2" />
+                  Open your copy
+                </Button>
+                <input
+                  ref={ownFileInputRef}
+                  type="file"
+                  accept="video/*"
+                  className="hidden"
+                  onChange={(e) => {
+                    const file = e.target.files?.[0];
+                    if (file) handleOpenOwnFile(file);
+                    e.target.value = '';
+                  }}
+                />
+              </div>
+            )}
           </CardContent>
         </Card>
 
         <div className="grid lg:grid-cols-3 gap-6">
           <div className="lg:col-span-2">
-            <VideoPlayer stream={remoteStream} isLoading={isConnecting} />
+            {partySrc ? (
+              <SyncedVideo src={partySrc} state={playback} />
+            ) : (
+              <VideoPlayer
+                stream={remoteStream}
+                isLoading={isConnecting}
+                isReconnecting={isReconnecting}
+                onRenderSizeChange={handleRenderSize}
+              />
+            )}
           </div>
           <div className="h-[500px]">
             <Chat
               messages={messages}
               onSendMessage={handleSendMessage}
-              userName="Viewer"
+              onReact={(message, emoji, on) => chat.react(message, emoji, on)}
+              onEdit={(message, text) => chat.edit(message, text)}
+              onDelete={(message) => chat.delete(message)}
+              selfId={peerId}
+              hasOlder={chatHistory.hasOlder}
+              loadingOlder={chatHistory.loadingOlder}
+              onLoadOlder={() => chat.loadOlder()}
+              disabledReason={chatMuted ? 'The host muted your chat' : undefined}
             />
           </div>
         </div>
+
+        <StatsPanel history={statsHistory} variant="viewer" connections={webrtcManager.getMetrics()} />
       </div>
     </div>
   );
-}
\ No newline at end of file
+}
@@ -1 +1,7 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  readonly VITE_WS_URL?: string;
+  readonly VITE_SIGNALING_TRANSPORT?: string;
+  readonly VITE_ICE_TRANSPORT_POLICY?: string;
+}